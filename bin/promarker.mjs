@@ -1,3 +1,5 @@
 #!/usr/bin/env node
 
-import '../dist/index.js'
\ No newline at end of file
+import { program } from '../dist/index.js'
+
+program.parse()
@@ -0,0 +1,147 @@
+import { createInterface } from 'readline'
+import { Writable } from 'stream'
+import chalk from 'chalk'
+import { DEFAULT_PROFILE, getProfilesFile, loadProfiles, resolveProfile, saveProfiles } from '../lib/profiles.js'
+import {
+  DEFAULT_SERVER_URL,
+  createServerClient,
+  parseRequestOptions,
+  toServerClientOptions,
+  type ServerCommandOptions
+} from '../lib/server-client.js'
+
+interface LoginOptions extends ServerCommandOptions {
+  token?: string
+}
+
+interface WhoAmIOptions extends ServerCommandOptions {
+  format: 'text' | 'json'
+}
+
+export async function loginCommand(options: LoginOptions): Promise<number> {
+  try {
+    const name = options.profile || process.env.PROMARKER_PROFILE || DEFAULT_PROFILE
+    const file = getProfilesFile()
+    const data = loadProfiles(file)
+    const url = options.serverUrl ?? process.env.PROMARKER_URL ?? data.profiles[name]?.url ?? DEFAULT_SERVER_URL
+    
+    const token = options.token ?? await readToken()
+    if (!token) {
+      throw new Error('No token given')
+    }
+    
+    // Only store tokens the server accepts
+    const client = createServerClient({
+      ...parseRequestOptions(options),
+      baseUrl: url,
+      headers: { authorization: `Bearer ${token}` }
+    })
+    const identity = await client.whoami()
+    if (!identity) {
+      throw new Error(`The token was rejected by ${client.baseUrl}`)
+    }
+    
+    data.profiles[name] = { url: client.baseUrl, token, user: identity.user.name }
+    saveProfiles(file, data)
+    
+    console.log(chalk.green(`✅ Logged in to ${client.baseUrl} as ${identity.user.name}`) + chalk.gray(` (profile: ${name})`))
+    console.log(chalk.gray(`   Credentials saved to ${file}`))
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Login failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
+
+export async function logoutCommand(options: Pick<ServerCommandOptions, 'profile'>): Promise<number> {
+  try {
+    const name = options.profile || process.env.PROMARKER_PROFILE || DEFAULT_PROFILE
+    const file = getProfilesFile()
+    const data = loadProfiles(file)
+    const profile = data.profiles[name]
+    
+    if (!profile?.token) {
+      console.log(chalk.yellow(`⚠️  Not logged in (profile: ${name})`))
+    } else {
+      // Keep the server URL so that the next login can reuse it
+      data.profiles[name] = { url: profile.url }
+      saveProfiles(file, data)
+      console.log(chalk.green(`✅ Logged out`) + chalk.gray(` (profile: ${name})`))
+    }
+    
+    if (process.env.PROMARKER_TOKEN) {
+      console.log(chalk.yellow('⚠️  PROMARKER_TOKEN is set and still takes effect'))
+    }
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Logout failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
+
+export async function whoamiCommand(options: WhoAmIOptions): Promise<number> {
+  try {
+    const profile = resolveProfile(options)
+    if (!profile.token) {
+      throw new Error(`Not logged in (profile: ${profile.name}). Run "promarker login" or set PROMARKER_TOKEN`)
+    }
+    
+    const client = createServerClient(toServerClientOptions(options))
+    const identity = await client.whoami()
+    if (!identity) {
+      throw new Error(`The token of profile ${profile.name} was rejected by ${client.baseUrl}`)
+    }
+    
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        ...identity,
+        profile: profile.name,
+        url: client.baseUrl,
+        tokenSource: profile.tokenSource
+      }, null, 2))
+    } else {
+      console.log(`👤 ${identity.user.name}${identity.user.email ? chalk.gray(` <${identity.user.email}>`) : ''}`)
+      if (identity.team) console.log(`👥 Team: ${identity.team}`)
+      console.log(`🌐 Server: ${client.baseUrl}`)
+      console.log(`🔑 Profile: ${profile.name}` + chalk.gray(` (token from ${profile.tokenSource === 'env' ? 'PROMARKER_TOKEN' : 'profile'})`))
+      if (identity.expiresAt) console.log(chalk.gray(`⏰ Token expires: ${new Date(identity.expiresAt).toLocaleString()}`))
+    }
+    return 0
+  } catch (error) {
+    if (options.format === 'json') {
+      console.log(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }, null, 2))
+    } else {
+      console.error(chalk.red('❌'), error instanceof Error ? error.message : error)
+    }
+    return 2
+  }
+}
+
+/**
+ * Reads the token from stdin when it is piped (CI), or asks for it without
+ * echoing it to the terminal.
+ */
+async function readToken(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk))
+    return Buffer.concat(chunks).toString('utf-8').trim()
+  }
+  
+  let muted = false
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      if (!muted) process.stdout.write(chunk)
+      callback()
+    }
+  })
+  
+  const rl = createInterface({ input: process.stdin, output, terminal: true })
+  const token = await new Promise<string>(resolve => {
+    rl.question('Token: ', resolve)
+    muted = true
+  })
+  rl.close()
+  process.stdout.write('\n')
+  return token.trim()
+}
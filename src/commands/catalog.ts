@@ -0,0 +1,40 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import chalk from 'chalk'
+import { buildCatalog, formatCatalogMarkdown } from '../lib/catalog.js'
+
+interface CatalogOptions {
+  format: 'json' | 'markdown'
+  output?: string
+  strict?: boolean
+  config?: string
+  ignore?: string[]
+  stencilRoot?: string
+}
+
+export async function catalogCommand(root: string, options: CatalogOptions): Promise<number> {
+  try {
+    const catalog = await buildCatalog(root, {
+      strict: options.strict,
+      config: options.config,
+      ignore: options.ignore,
+      stencilRoot: options.stencilRoot
+    })
+    const content = options.format === 'json'
+      ? JSON.stringify(catalog, null, 2) + '\n'
+      : formatCatalogMarkdown(catalog)
+    
+    if (options.output) {
+      const outputFile = resolve(process.cwd(), options.output)
+      mkdirSync(dirname(outputFile), { recursive: true })
+      writeFileSync(outputFile, content)
+      console.error(chalk.gray(`Catalog of ${catalog.stencils.length} stencils written to ${outputFile}`))
+    } else {
+      process.stdout.write(content)
+    }
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Catalog failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
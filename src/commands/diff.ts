@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, relative, resolve } from 'path'
+import chalk from 'chalk'
+import { exportDirectoryAtRef } from '../lib/git-changes.js'
+import {
+  checkVersionBump,
+  diffStencils,
+  loadStencilSnapshot,
+  type ChangeLevel,
+  type StencilChange,
+  type VersionCheck
+} from '../lib/stencil-diff.js'
+
+interface DiffOptions {
+  base?: string
+  format: 'text' | 'json'
+}
+
+interface DiffSide {
+  // Directory, or ref:path with --base
+  label: string
+  version: string
+}
+
+export async function diffCommand(oldPath: string, newPath: string | undefined, options: DiffOptions): Promise<number> {
+  let tempDir: string | undefined
+  
+  try {
+    let oldDir: string
+    let newDir: string
+    let oldLabel: string
+    
+    if (options.base) {
+      if (newPath) {
+        throw new Error('--base compares one stencil directory with its version at the git ref; pass a single path')
+      }
+      // The committed version is extracted, so the working tree stays untouched
+      newDir = resolve(process.cwd(), oldPath)
+      tempDir = mkdtempSync(join(tmpdir(), 'promarker-diff-'))
+      exportDirectoryAtRef(options.base, newDir, tempDir)
+      oldDir = tempDir
+      oldLabel = `${options.base}:${relative(process.cwd(), newDir) || '.'}`
+    } else {
+      if (!newPath) {
+        throw new Error('Pass two stencil directories, or one with --base <git-ref>')
+      }
+      oldDir = resolve(process.cwd(), oldPath)
+      newDir = resolve(process.cwd(), newPath)
+      oldLabel = oldDir
+    }
+    
+    const before = await loadStencilSnapshot(oldDir)
+    const after = await loadStencilSnapshot(newDir)
+    const changes = diffStencils(before, after)
+    const version = checkVersionBump(String(before.settings.version ?? ''), String(after.settings.version ?? ''), changes)
+    const old = { label: oldLabel, version: version.from }
+    const current = { label: newDir, version: version.to }
+    
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        success: version.ok,
+        old: { path: old.label, version: old.version },
+        new: { path: current.label, version: current.version },
+        changes,
+        version,
+        comparedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.log(formatTextResults(old, current, changes, version))
+    }
+    
+    return version.ok ? 0 : 2
+  } catch (error) {
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        comparedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.error(chalk.red('❌ Diff failed:'), error instanceof Error ? error.message : error)
+    }
+    return 2
+  } finally {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true })
+  }
+}
+
+const LEVEL_HEADINGS: Record<ChangeLevel, { title: string; color: (text: string) => string }> = {
+  breaking: { title: '💥 Breaking changes', color: chalk.red },
+  feature: { title: '✨ Features', color: chalk.cyan },
+  patch: { title: '🩹 Patches', color: chalk.gray }
+}
+
+function formatTextResults(old: DiffSide, current: DiffSide, changes: StencilChange[], version: VersionCheck): string {
+  const lines: string[] = []
+  
+  lines.push(chalk.bold('\n🔀 ProMarker Stencil Diff'))
+  lines.push(chalk.gray('========================='))
+  lines.push(`📁 Old: ${old.label} (${old.version || 'no version'})`)
+  lines.push(`📁 New: ${current.label} (${current.version || 'no version'})`)
+  lines.push('')
+  
+  if (changes.length === 0) {
+    lines.push(chalk.gray('No changes'))
+    lines.push('')
+  }
+  
+  for (const level of ['breaking', 'feature', 'patch'] as const) {
+    const levelChanges = changes.filter(change => change.level === level)
+    if (levelChanges.length === 0) continue
+    
+    const { title, color } = LEVEL_HEADINGS[level]
+    lines.push(color(chalk.bold(`${title} (${levelChanges.length}):`)))
+    levelChanges.forEach(change => {
+      lines.push(color(`  • ${change.message}`) + chalk.gray(` (${change.kind})`))
+    })
+    lines.push('')
+  }
+  
+  const bump = `${version.from || '?'} → ${version.to || '?'}`
+  if (version.ok) {
+    lines.push(chalk.green.bold(`✅ Version bump ${bump} (${version.actual}) covers the changes (${version.required} required)`))
+  } else if (version.problem) {
+    lines.push(chalk.red.bold(`❌ ${version.problem}`))
+  } else if (version.actual === 'none') {
+    lines.push(chalk.red.bold(`❌ Version ${version.from} is unchanged, but the changes require a ${version.required} bump`))
+  } else {
+    lines.push(chalk.red.bold(`❌ Version bump ${bump} is a ${version.actual} bump, but the changes require a ${version.required} bump`))
+  }
+  if (version.suggested) {
+    lines.push(chalk.gray(`   Suggested version: ${version.suggested}`))
+  }
+  
+  return lines.join('\n')
+}
@@ -0,0 +1,150 @@
+import { join, relative, resolve, sep } from 'path'
+import { glob } from 'glob'
+import chalk from 'chalk'
+import { SETTINGS_FILE_NAME } from '../lib/stencil-settings.js'
+import { validateStencil } from '../lib/validator.js'
+import { createReferenceResolver, resolveReferenceGraph } from '../lib/reference-resolver.js'
+import { createIgnoreMatcher } from '../lib/ignore-rules.js'
+import {
+  collectVariableDefinitions,
+  parseVariableAssignments,
+  readVariablesFile,
+  resolveVariableValues,
+  type VariableValueSource
+} from '../lib/variable-values.js'
+import {
+  createServerClient,
+  encodeStencilFiles,
+  toServerClientOptions,
+  type ServerCommandOptions
+} from '../lib/server-client.js'
+import { extractArchive, readArchive, type ManifestEntry } from '../lib/archive.js'
+import { checkOutputPaths, listOutputSources } from '../lib/output-paths.js'
+import type { ValidationResult } from '../lib/types.js'
+
+interface GenerateOptions extends ServerCommandOptions {
+  var: string[]
+  varsFile?: string
+  out: string
+  force?: boolean
+  format: 'text' | 'json'
+  strict?: boolean
+  config?: string
+  ignore?: string[]
+  stencilRoot?: string
+}
+
+export async function generateCommand(stencilPath: string, options: GenerateOptions): Promise<number> {
+  try {
+    const stencilDir = resolve(process.cwd(), stencilPath)
+    const outDir = resolve(process.cwd(), options.out)
+    const stencilRoot = resolve(process.cwd(), options.stencilRoot ?? '.')
+    
+    // The stencil has to pass local validation before anything is sent
+    const summary = await validateStencil(stencilDir, {
+      strict: options.strict,
+      config: options.config,
+      ignore: options.ignore,
+      stencilRoot: options.stencilRoot
+    })
+    if (!summary.success) {
+      return reportProblems('Stencil validation failed', summary.errors, options)
+    }
+    
+    // Check the supplied values against the declared variables
+    const graph = await resolveReferenceGraph(createReferenceResolver(stencilRoot), stencilDir)
+    const definitions = collectVariableDefinitions(graph)
+    const sources: VariableValueSource[] = []
+    if (options.varsFile) {
+      sources.push({ path: resolve(process.cwd(), options.varsFile), values: readVariablesFile(options.varsFile) })
+    }
+    sources.push({ path: '--var', values: parseVariableAssignments(options.var, definitions) })
+    
+    const { values, results } = resolveVariableValues(definitions, sources, join(stencilDir, SETTINGS_FILE_NAME))
+    if (results.length > 0) {
+      return reportProblems('Variable values are invalid', results, options)
+    }
+    
+    // Placeholders in file paths can only be checked once the values are known
+    const ignoreMatcher = createIgnoreMatcher([stencilRoot, stencilDir], options.ignore)
+    const outputSources = (await listOutputSources(stencilDir, graph.root.settings ?? {}))
+      .filter(source => !ignoreMatcher.ignores(join(stencilDir, source)))
+    const pathProblems = checkOutputPaths(stencilDir, outputSources, values).filter(result => result.type === 'error')
+    if (pathProblems.length > 0) {
+      return reportProblems('Output paths are invalid', pathProblems, options)
+    }
+    
+    // Send the stencil (after ignore rules) and values to the server
+    const files = (await glob('**/*', { cwd: stencilDir, nodir: true, absolute: true }))
+      .filter(file => !ignoreMatcher.ignores(file))
+      .map(file => relative(stencilDir, file).split(sep).join('/'))
+      .sort()
+    
+    const client = createServerClient(toServerClientOptions(options))
+    const archive = await client.generate({
+      id: graph.root.id,
+      files: encodeStencilFiles(stencilDir, files),
+      variables: values
+    })
+    
+    const manifest = extractArchive(readArchive(archive), outDir, { force: options.force })
+    printManifest(stencilDir, outDir, manifest, options)
+    return 0
+  } catch (error) {
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        generatedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.error(chalk.red('❌ Generation failed:'), error instanceof Error ? error.message : error)
+    }
+    return 2
+  }
+}
+
+function reportProblems(title: string, problems: ValidationResult[], options: GenerateOptions): number {
+  if (options.format === 'json') {
+    console.log(JSON.stringify({
+      success: false,
+      error: title,
+      errors: problems,
+      generatedAt: new Date().toISOString()
+    }, null, 2))
+  } else {
+    console.error(chalk.red.bold(`❌ ${title} (${problems.length}):`))
+    problems.forEach(problem => {
+      console.error(chalk.red(`  • ${problem.message}`))
+      if (problem.details) {
+        console.error(chalk.gray(`    ${problem.details}`))
+      }
+      console.error(chalk.gray(`    Location: ${problem.path}`))
+    })
+    console.error(chalk.gray('\nNothing was generated.'))
+  }
+  return 2
+}
+
+function printManifest(stencilDir: string, outDir: string, manifest: ManifestEntry[], options: GenerateOptions) {
+  if (options.format === 'json') {
+    console.log(JSON.stringify({
+      success: true,
+      stencil: stencilDir,
+      out: outDir,
+      files: manifest,
+      generatedAt: new Date().toISOString()
+    }, null, 2))
+    return
+  }
+  
+  console.log(chalk.bold('\n📦 ProMarker Generation Manifest'))
+  console.log(chalk.gray('==============================='))
+  console.log(`📁 Stencil: ${stencilDir}`)
+  console.log(`📂 Output: ${outDir}`)
+  console.log('')
+  manifest.forEach(entry => {
+    console.log(`  ${entry.path}` + chalk.gray(` (${entry.size} bytes, sha256 ${entry.sha256.slice(0, 12)})`))
+  })
+  console.log(chalk.green.bold(`\n✅ ${manifest.length} files written`))
+}
@@ -0,0 +1,136 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import chalk from 'chalk'
+import {
+  buildStencilGraph,
+  describeNode,
+  findAffectedStencils,
+  findGraphNode,
+  formatGraphDot,
+  formatGraphMermaid,
+  selectSubgraph,
+  type AffectedStencil,
+  type GraphNode,
+  type StencilGraph
+} from '../lib/stencil-graph.js'
+
+interface GraphOptions {
+  format: 'text' | 'dot' | 'mermaid' | 'json'
+  output?: string
+  affected?: string
+  ignore?: string[]
+  stencilRoot?: string
+}
+
+export async function graphCommand(root: string, options: GraphOptions): Promise<number> {
+  try {
+    let graph = await buildStencilGraph(root, { ignore: options.ignore, stencilRoot: options.stencilRoot })
+    let target: GraphNode | undefined
+    let affected: AffectedStencil[] | undefined
+    
+    if (options.affected) {
+      target = findGraphNode(graph, options.affected)
+      if (!target) {
+        throw new Error(`No stencil with id or path "${options.affected}" under ${graph.root}`)
+      }
+      affected = findAffectedStencils(graph, target.path)
+      // Dependents of the base and the references between them
+      graph = selectSubgraph(graph, [target.path, ...affected.map(stencil => stencil.path)])
+    }
+    
+    let content: string
+    switch (options.format) {
+      case 'dot':
+        content = formatGraphDot(graph, target?.path)
+        break
+      case 'mermaid':
+        content = formatGraphMermaid(graph, target?.path)
+        break
+      case 'json':
+        content = JSON.stringify({
+          ...graph,
+          ...(target && affected && { affected: { stencil: target.path, stencils: affected } })
+        }, null, 2) + '\n'
+        break
+      default:
+        content = target && affected
+          ? formatAffectedText(target, affected)
+          : formatTextResults(graph)
+    }
+    
+    if (options.output) {
+      const outputFile = resolve(process.cwd(), options.output)
+      mkdirSync(dirname(outputFile), { recursive: true })
+      writeFileSync(outputFile, content)
+      console.error(chalk.gray(`Graph written to ${outputFile}`))
+    } else {
+      process.stdout.write(content)
+    }
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Graph failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
+
+function formatTextResults(graph: StencilGraph): string {
+  const lines: string[] = []
+  const label = (path: string) => {
+    const node = graph.nodes.find(n => n.path === path)
+    return node ? describeNode(node).replace(/\n(.*)/, ' ($1)') : path
+  }
+  
+  lines.push(chalk.bold('\n🕸️  ProMarker Stencil Graph'))
+  lines.push(chalk.gray('=========================='))
+  lines.push(`📁 Root: ${graph.root}`)
+  lines.push('')
+  
+  for (const node of graph.nodes) {
+    const edges = graph.edges.filter(edge => edge.from === node.path)
+    lines.push(chalk.bold(label(node.path)) + (node.external ? chalk.gray(' (outside the root)') : ''))
+    edges.forEach((edge, index) => {
+      const branch = index === edges.length - 1 ? '└─' : '├─'
+      const target = edge.to ? label(edge.to) : chalk.red(`${edge.ref} (unresolved)`)
+      lines.push(`  ${branch} ${edge.kind} → ${edge.inCycle ? chalk.red(target) : target}`)
+    })
+  }
+  lines.push('')
+  
+  const unresolved = graph.edges.filter(edge => !edge.to)
+  const orphans = graph.nodes.filter(node => node.orphan)
+  
+  if (unresolved.length > 0) {
+    lines.push(chalk.red.bold(`❌ Unresolved references (${unresolved.length}):`))
+    unresolved.forEach(edge => lines.push(chalk.red(`  • ${label(edge.from)}: ${edge.kind} ${edge.ref}`)))
+    lines.push('')
+  }
+  
+  if (graph.cycles.length > 0) {
+    lines.push(chalk.red.bold(`🔁 Cycles (${graph.cycles.length}):`))
+    graph.cycles.forEach(cycle => lines.push(chalk.red(`  • ${cycle.map(label).join(' → ')}`)))
+    lines.push('')
+  }
+  
+  if (orphans.length > 0) {
+    lines.push(chalk.yellow.bold(`⚠️  Orphaned base stencils (${orphans.length}):`))
+    orphans.forEach(node => lines.push(chalk.yellow(`  • ${label(node.path)}`)))
+    lines.push('')
+  }
+  
+  lines.push(chalk.gray(`${graph.nodes.length} stencils, ${graph.edges.length} references`))
+  return lines.join('\n') + '\n'
+}
+
+function formatAffectedText(target: GraphNode, affected: AffectedStencil[]): string {
+  const lines: string[] = []
+  
+  lines.push(chalk.bold(`Stencils affected by a change to ${target.id ?? target.path} (${affected.length}):`))
+  if (affected.length === 0) {
+    lines.push(chalk.gray('  (none)'))
+  }
+  affected.forEach(stencil => {
+    const via = stencil.depth === 1 ? 'direct' : `indirect, depth ${stencil.depth}`
+    lines.push(`  • ${stencil.id ? `${stencil.id} (${stencil.path})` : stencil.path}` + chalk.gray(` — ${via}`))
+  })
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,125 @@
+import { basename, relative, resolve } from 'path'
+import { createInterface, type Interface } from 'readline'
+import chalk from 'chalk'
+import { createReferenceResolver } from '../lib/reference-resolver.js'
+import {
+  checkStencilAnswers,
+  checkStencilId,
+  checkStencilVersion,
+  suggestStencilId,
+  writeStencilScaffold,
+  type StencilAnswers
+} from '../lib/stencil-scaffold.js'
+
+interface InitOptions {
+  id?: string
+  name?: string
+  type?: string
+  stencilVersion?: string
+  description?: string
+  extend?: string
+  stencilRoot?: string
+  force?: boolean
+}
+
+export async function initCommand(targetPath: string, options: InitOptions): Promise<number> {
+  try {
+    const dir = resolve(process.cwd(), targetPath)
+    const resolver = createReferenceResolver(resolve(process.cwd(), options.stencilRoot ?? '.'))
+    const checkExtend = async (ref?: string) => {
+      if (ref && !(await resolver.resolve(ref, dir))) {
+        return `extend reference "${ref}" does not resolve to a stencil`
+      }
+      return null
+    }
+    
+    let answers: StencilAnswers
+    if (options.id && options.name && options.type) {
+      answers = {
+        id: options.id,
+        name: options.name,
+        type: options.type,
+        version: options.stencilVersion ?? '1.0.0',
+        description: options.description ?? `${options.name} stencil`,
+        extend: options.extend
+      }
+      const problems = checkStencilAnswers(answers)
+      const extendProblem = await checkExtend(answers.extend)
+      if (extendProblem) problems.push(extendProblem)
+      if (problems.length > 0) {
+        throw new Error(problems.join('; '))
+      }
+    } else if (process.stdin.isTTY) {
+      answers = await promptAnswers(dir, options, checkExtend)
+    } else {
+      throw new Error('--id, --name and --type are required when not running in a terminal')
+    }
+    
+    const created = writeStencilScaffold(dir, answers, { force: options.force })
+    
+    console.log(chalk.green.bold(`\n✅ Stencil "${answers.id}" created in ${dir}`))
+    created.forEach(file => console.log(chalk.gray(`   + ${file}`)))
+    console.log(chalk.gray('\nNext steps:'))
+    console.log(chalk.gray('  • Add templates to files/ and declare their variables'))
+    console.log(chalk.gray(`  • Run: promarker validate ${relative(process.cwd(), dir) || '.'} --strict`))
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Init failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
+
+async function promptAnswers(
+  dir: string,
+  options: InitOptions,
+  checkExtend: (ref?: string) => Promise<string | null>
+): Promise<StencilAnswers> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  // Iterating buffers lines, so answers typed (or pasted) ahead are not lost
+  const lines = rl[Symbol.asyncIterator]()
+  const ask = (label: string, defaultValue: string, check: (value: string) => string | null | Promise<string | null>) =>
+    askUntilValid(rl, lines, label, defaultValue, check)
+  
+  try {
+    console.log(chalk.bold('\n🧩 New ProMarker stencil'))
+    console.log(chalk.gray('Press enter to accept the default shown in brackets.\n'))
+    
+    const id = await ask('Stencil id', options.id ?? suggestStencilId(basename(dir)), checkStencilId)
+    const name = await ask('Name', options.name ?? id, value => (value ? null : 'name is required'))
+    const type = await ask('Type', options.type ?? 'service', value => (value ? null : 'type is required'))
+    const version = await ask('Version', options.stencilVersion ?? '1.0.0', checkStencilVersion)
+    const description = await ask('Description', options.description ?? `${name} stencil`, value =>
+      value ? null : 'description is required'
+    )
+    const extend = await ask('Extend a base stencil (id or path, empty for none)', options.extend ?? '', value =>
+      checkExtend(value || undefined)
+    )
+    
+    return { id, name, type, version, description, extend: extend || undefined }
+  } finally {
+    rl.close()
+  }
+}
+
+// Asks until the answer passes the check; an empty answer takes the default
+async function askUntilValid(
+  rl: Interface,
+  lines: AsyncIterator<string>,
+  label: string,
+  defaultValue: string,
+  check: (value: string) => string | null | Promise<string | null>
+): Promise<string> {
+  for (;;) {
+    const suffix = defaultValue ? chalk.gray(` [${defaultValue}]`) : ''
+    rl.setPrompt(`${label}${suffix}: `)
+    rl.prompt()
+    
+    const line = await lines.next()
+    if (line.done) throw new Error('Input ended before all questions were answered')
+    const value = line.value.trim() || defaultValue
+    
+    const problem = await check(value)
+    if (!problem) return value
+    console.log(chalk.yellow(`  ⚠️  ${problem}`))
+  }
+}
@@ -0,0 +1,209 @@
+import { spawnSync } from 'child_process'
+import { join, resolve } from 'path'
+import chalk from 'chalk'
+import { SETTINGS_FILE_NAME } from '../lib/stencil-settings.js'
+import { createReferenceResolver, resolveReferenceGraph } from '../lib/reference-resolver.js'
+import { createIgnoreMatcher } from '../lib/ignore-rules.js'
+import { createConfigLoader } from '../lib/config.js'
+import {
+  collectVariableDefinitions,
+  parseVariableAssignments,
+  readVariablesFile,
+  resolveVariableValues,
+  type VariableValueSource
+} from '../lib/variable-values.js'
+import { checkOutputPaths, listOutputSources } from '../lib/output-paths.js'
+import { renderStencilPreview, type PreviewFile } from '../lib/template-preview.js'
+import type { ValidationResult } from '../lib/types.js'
+
+interface PreviewOptions {
+  vars?: string
+  var: string[]
+  // Output or source paths of the files to print
+  file: string[]
+  all?: boolean
+  pager?: boolean
+  format: 'text' | 'json'
+  config?: string
+  ignore?: string[]
+  stencilRoot?: string
+}
+
+export async function previewCommand(stencilPath: string, options: PreviewOptions): Promise<number> {
+  try {
+    const stencilDir = resolve(process.cwd(), stencilPath)
+    const stencilRoot = resolve(process.cwd(), options.stencilRoot ?? '.')
+    
+    const graph = await resolveReferenceGraph(createReferenceResolver(stencilRoot), stencilDir)
+    if (!graph.root.settings) {
+      throw new Error(`Cannot read ${SETTINGS_FILE_NAME} in ${stencilDir}: ${graph.root.error}`)
+    }
+    
+    // Same value handling as generate: file, then --var, then declared defaults
+    const definitions = collectVariableDefinitions(graph)
+    const sources: VariableValueSource[] = []
+    if (options.vars) {
+      sources.push({ path: resolve(process.cwd(), options.vars), values: readVariablesFile(options.vars) })
+    }
+    sources.push({ path: '--var', values: parseVariableAssignments(options.var, definitions) })
+    const { values, results: valueResults } = resolveVariableValues(definitions, sources, join(stencilDir, SETTINGS_FILE_NAME))
+    
+    const config = await createConfigLoader(options.config)(stencilDir)
+    const ignoreMatcher = createIgnoreMatcher([stencilRoot, stencilDir], options.ignore)
+    const outputSources = (await listOutputSources(stencilDir, graph.root.settings))
+      .filter(source => !ignoreMatcher.ignores(join(stencilDir, source)))
+    
+    const preview = renderStencilPreview(stencilDir, outputSources, values, config.helpers)
+    const results = [
+      ...valueResults,
+      ...checkOutputPaths(stencilDir, outputSources, values).filter(result => result.type === 'error'),
+      ...preview.results
+    ]
+    const errors = results.filter(result => result.type === 'error')
+    const warnings = results.filter(result => result.type === 'warning')
+    
+    const shown = options.all ? preview.files : options.file.map(path => findFile(preview.files, path))
+    
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        success: errors.length === 0,
+        stencil: stencilDir,
+        values,
+        files: preview.files,
+        errors,
+        warnings,
+        previewedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      const output = formatTextResults(stencilDir, preview.files, shown, errors, warnings)
+      if (options.pager && process.stdout.isTTY) {
+        page(output)
+      } else {
+        process.stdout.write(output)
+      }
+    }
+    
+    return errors.length > 0 ? 2 : 0
+  } catch (error) {
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        previewedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.error(chalk.red('❌ Preview failed:'), error instanceof Error ? error.message : error)
+    }
+    return 2
+  }
+}
+
+function findFile(files: PreviewFile[], path: string): PreviewFile {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '')
+  const file = files.find(f => f.output === normalized) ?? files.find(f => f.source === normalized)
+  if (!file) {
+    throw new Error(`No output file ${path} in the preview (files: ${files.map(f => f.output).join(', ') || 'none'})`)
+  }
+  return file
+}
+
+function page(output: string) {
+  // PAGER may carry arguments, so it is run through the shell
+  const result = spawnSync(process.env.PAGER || 'less -R', {
+    shell: true,
+    input: output,
+    stdio: ['pipe', 'inherit', 'inherit']
+  })
+  if (result.error) {
+    process.stdout.write(output)
+  }
+}
+
+function formatTextResults(
+  stencilDir: string,
+  files: PreviewFile[],
+  shown: PreviewFile[],
+  errors: ValidationResult[],
+  warnings: ValidationResult[]
+): string {
+  const lines: string[] = []
+  
+  lines.push(chalk.bold('\n👀 ProMarker Stencil Preview'))
+  lines.push(chalk.gray('============================'))
+  lines.push(`📁 Stencil: ${stencilDir}`)
+  lines.push(chalk.gray('Rendered locally for review; generation still runs on the ProMarker server.'))
+  lines.push('')
+  
+  lines.push(chalk.bold(`📂 Output files (${files.length}):`))
+  lines.push(...formatTree(files))
+  lines.push('')
+  
+  for (const file of shown) {
+    lines.push(chalk.cyan.bold(`──── ${file.output} `) + chalk.gray(`(from ${file.source})`))
+    lines.push(file.content === null ? chalk.gray('(binary file or render error; not shown)') : file.content.replace(/\n$/, ''))
+    lines.push('')
+  }
+  
+  for (const [title, problems, color] of [
+    ['❌ Errors', errors, chalk.red],
+    ['⚠️  Warnings', warnings, chalk.yellow]
+  ] as const) {
+    if (problems.length === 0) continue
+    
+    lines.push(color.bold(`${title} (${problems.length}):`))
+    problems.forEach(problem => {
+      lines.push(color(`  • ${problem.message}`) + chalk.gray(` [${problem.rule}]`))
+      if (problem.details) {
+        lines.push(chalk.gray(`    ${problem.details}`))
+      }
+      const position = problem.location ? `:${problem.location.start.line}:${problem.location.start.column}` : ''
+      lines.push(chalk.gray(`    Location: ${problem.path}${position}`))
+    })
+    lines.push('')
+  }
+  
+  if (errors.length === 0) {
+    lines.push(chalk.green.bold(`✅ ${files.length} files rendered`) + chalk.gray(' (nothing was written)'))
+  } else {
+    lines.push(chalk.red.bold(`❌ Preview found ${errors.length} errors`) + chalk.gray(' (nothing was written)'))
+  }
+  return lines.join('\n') + '\n'
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>
+  file?: PreviewFile
+}
+
+// Draws output paths as a directory tree, directories first
+function formatTree(files: PreviewFile[]): string[] {
+  const root: TreeNode = { children: new Map() }
+  for (const file of files) {
+    let node = root
+    for (const part of file.output.split('/')) {
+      let child = node.children.get(part)
+      if (!child) {
+        child = { children: new Map() }
+        node.children.set(part, child)
+      }
+      node = child
+    }
+    node.file = file
+  }
+  
+  const lines: string[] = []
+  const walk = (node: TreeNode, indent: string) => {
+    const entries = [...node.children].sort(([a, x], [b, y]) =>
+      Number(x.children.size === 0) - Number(y.children.size === 0) || a.localeCompare(b)
+    )
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1
+      const label = child.children.size > 0 ? chalk.bold(`${name}/`) : name
+      const note = child.file?.content === null ? chalk.gray(child.file.template ? ' (not rendered)' : ' (binary)') : ''
+      lines.push(`  ${indent}${last ? '└── ' : '├── '}${label}${note}`)
+      walk(child, indent + (last ? '    ' : '│   '))
+    })
+  }
+  walk(root, '')
+  return lines
+}
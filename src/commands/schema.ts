@@ -0,0 +1,45 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import chalk from 'chalk'
+import { CURRENT_SCHEMA_VERSION, toStencilSettingsJsonSchema } from '../lib/stencil-settings.js'
+import { toCatalogJsonSchema } from '../lib/catalog.js'
+
+interface SchemaOptions {
+  format: 'json-schema'
+  // Document the schema describes: stencil-settings (default) or catalog
+  document?: string
+  schemaVersion?: string
+  output?: string
+}
+
+export async function schemaCommand(options: SchemaOptions): Promise<number> {
+  try {
+    const document = options.document ?? 'stencil-settings'
+    let schema: Record<string, unknown>
+    if (document === 'stencil-settings') {
+      const schemaVersion = options.schemaVersion === undefined ? CURRENT_SCHEMA_VERSION : Number(options.schemaVersion)
+      schema = toStencilSettingsJsonSchema(schemaVersion)
+    } else if (document === 'catalog') {
+      if (options.schemaVersion !== undefined) {
+        throw new Error('--schema-version only applies to stencil-settings')
+      }
+      schema = toCatalogJsonSchema()
+    } else {
+      throw new Error(`Unsupported document: ${document} (supported: stencil-settings, catalog)`)
+    }
+    const content = JSON.stringify(schema, null, 2) + '\n'
+    
+    if (options.output) {
+      const outputFile = resolve(process.cwd(), options.output)
+      mkdirSync(dirname(outputFile), { recursive: true })
+      writeFileSync(outputFile, content)
+      console.error(chalk.gray(`Schema written to ${outputFile}`))
+    } else {
+      process.stdout.write(content)
+    }
+    return 0
+  } catch (error) {
+    console.error(chalk.red('❌ Schema export failed:'), error instanceof Error ? error.message : error)
+    return 2
+  }
+}
@@ -0,0 +1,51 @@
+import chalk from 'chalk'
+import { createServerClient, toServerClientOptions, type ServerCommandOptions } from '../lib/server-client.js'
+
+interface ServerStatusOptions extends ServerCommandOptions {
+  format: 'text' | 'json'
+}
+
+export async function serverStatusCommand(options: ServerStatusOptions): Promise<number> {
+  const startedAt = Date.now()
+  let baseUrl = options.serverUrl ?? ''
+  
+  try {
+    const client = createServerClient(toServerClientOptions(options))
+    baseUrl = client.baseUrl
+    const status = await client.status()
+    const responseTime = Date.now() - startedAt
+    
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        reachable: true,
+        url: baseUrl,
+        ...status,
+        responseTime,
+        checkedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.log(chalk.bold('\n🖥️  ProMarker Server Status'))
+      console.log(chalk.gray('=========================='))
+      console.log(`🌐 URL: ${baseUrl}`)
+      console.log(chalk.green(`✅ Reachable: ${status.status}`))
+      if (status.name) console.log(`📛 Name: ${status.name}`)
+      if (status.version) console.log(`🏷️  Version: ${status.version}`)
+      console.log(chalk.gray(`⏱️  Response time: ${responseTime}ms`))
+    }
+    return 0
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        reachable: false,
+        url: baseUrl,
+        error: message,
+        checkedAt: new Date().toISOString()
+      }, null, 2))
+    } else {
+      console.error(chalk.red('❌ ProMarker server is not available:'), message)
+    }
+    return 2
+  }
+}
@@ -0,0 +1,123 @@
+import { join, relative, resolve } from 'path'
+import { clearTimeout, setTimeout } from 'timers'
+import chalk from 'chalk'
+import { watch } from 'chokidar'
+import { findConfigFile } from '../lib/config.js'
+import { createReferenceResolver, resolveReferenceGraph } from '../lib/reference-resolver.js'
+import { SETTINGS_FILE_NAME } from '../lib/stencil-settings.js'
+import { affectedChecks, diffResults, mergeSummaries, type ResultDiff, type WatchScope } from '../lib/watch-session.js'
+import type { CheckGroup } from '../lib/rules.js'
+import type { ValidationResult, ValidationSummary } from '../lib/types.js'
+
+interface WatchOptions {
+  stencilRoot?: string
+  config?: string
+}
+
+type RunValidation = (checks?: Set<CheckGroup>) => Promise<ValidationSummary>
+
+const DEBOUNCE_MS = 100
+
+/**
+ * Validates a stencil, then re-validates it whenever the stencil, its
+ * extended/included stencils or the config file change. Resolves with exit
+ * code 0 when the user stops watching (Ctrl+C).
+ */
+export async function watchStencil(path: string, options: WatchOptions, runValidation: RunValidation): Promise<number> {
+  const scope: WatchScope = {
+    stencilDir: path,
+    settingsFile: join(path, SETTINGS_FILE_NAME),
+    referencedSettingsFiles: [],
+    configFile: options.config ? resolve(process.cwd(), options.config) : findConfigFile(path)
+  }
+  
+  const watcher = watch([path, ...(scope.configFile ? [scope.configFile] : [])], {
+    ignoreInitial: true,
+    ignored: (file: string) => file.includes('/node_modules/') || file.includes('/.git/')
+  })
+  
+  let previous: ValidationSummary | undefined
+  let pending = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running = Promise.resolve()
+  
+  const run = async (changed: string[]) => {
+    const checks = previous ? affectedChecks(changed, scope) : undefined
+    
+    try {
+      const next = await runValidation(checks)
+      const summary = previous ? mergeSummaries(previous, next, checks) : next
+      const diff = previous ? diffResults(previous, summary) : { added: [], fixed: [] }
+      
+      renderWatchReport(summary, diff, changed, checks)
+      previous = summary
+      
+      // Start watching stencils that became reachable through extend/include
+      const referenced = await findReferencedSettingsFiles(path, options)
+      const added = referenced.filter(file => !scope.referencedSettingsFiles.includes(file))
+      scope.referencedSettingsFiles = referenced
+      if (added.length > 0) watcher.add(added)
+    } catch (error) {
+      // Keep watching; the next change gets another chance
+      console.error(chalk.red('❌ Validation failed:'), error instanceof Error ? error.message : error)
+    }
+  }
+  
+  watcher.on('all', (_event, file) => {
+    pending.add(resolve(file))
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      const changed = [...pending]
+      pending = new Set()
+      running = running.then(() => run(changed))
+    }, DEBOUNCE_MS)
+  })
+  
+  running = running.then(() => run([]))
+  
+  return new Promise(done => {
+    process.once('SIGINT', async () => {
+      if (timer) clearTimeout(timer)
+      await watcher.close()
+      console.log(chalk.gray('\n👋 Stopped watching'))
+      done(0)
+    })
+  })
+}
+
+async function findReferencedSettingsFiles(path: string, options: WatchOptions): Promise<string[]> {
+  const resolver = createReferenceResolver(resolve(process.cwd(), options.stencilRoot ?? '.'))
+  const graph = await resolveReferenceGraph(resolver, path)
+  const files = graph.references.flatMap(reference => (reference.target ? [reference.target.settingsFile] : []))
+  return [...new Set(files)].filter(file => file !== graph.root.settingsFile)
+}
+
+function renderWatchReport(summary: ValidationSummary, diff: ResultDiff, changed: string[], checks?: Set<CheckGroup>) {
+  const describe = (result: ValidationResult) => {
+    const line = result.location ? `:${result.location.start.line}` : ''
+    return `${result.message} ${chalk.gray(`(${relative(summary.path, result.path) || '.'}${line})`)}`
+  }
+  
+  console.clear()
+  console.log(chalk.bold(`👀 Watching ${summary.path}`))
+  if (changed.length > 0) {
+    const rerun = checks ? [...checks].join(', ') : 'all checks'
+    console.log(chalk.gray(`   Changed: ${changed.map(file => relative(summary.path, file) || '.').join(', ')} → re-ran ${rerun}`))
+  }
+  console.log(chalk.gray(`   ${new Date().toLocaleTimeString()}`))
+  console.log()
+  
+  summary.errors.forEach(error => console.log(chalk.red(`❌ ${describe(error)}`)))
+  summary.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${describe(warning)}`)))
+  if (summary.errors.length === 0 && summary.warnings.length === 0) {
+    console.log(chalk.green('✅ No issues'))
+  }
+  
+  if (diff.added.length > 0 || diff.fixed.length > 0) {
+    console.log()
+    diff.added.forEach(result => console.log(chalk.red(`  + ${describe(result)}`)))
+    diff.fixed.forEach(result => console.log(chalk.green(`  - ${describe(result)}`)))
+  }
+  
+  console.log(chalk.gray(`\n📈 ${summary.errors.length} errors, ${summary.warnings.length} warnings · ${diff.added.length} new, ${diff.fixed.length} fixed · Ctrl+C to stop`))
+}
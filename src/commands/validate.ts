@@ -1,59 +1,80 @@
-import { readFileSync, existsSync, statSync } from 'fs'
-import { resolve, join } from 'path'
-import { glob } from 'glob'
-import { parse as parseYaml } from 'yaml'
-import { z } from 'zod'
+import { readFileSync, writeFileSync } from 'fs'
+import { relative, resolve } from 'path'
+import { stripVTControlCharacters } from 'util'
 import chalk from 'chalk'
+import { formatJUnit, formatSarif } from '../lib/report-formatters.js'
+import { getCliVersion } from '../lib/package-info.js'
+import { formatCodeFrame, formatPosition } from '../lib/source-location.js'
+import { createValidationContext, validateStencil, validateWorkspace, type ValidateStencilOptions } from '../lib/validator.js'
+import { BASELINE_FILE_NAME, loadBaseline, saveBaseline, updateBaseline } from '../lib/baseline.js'
+import { DEFAULT_CACHE_DIR } from '../lib/validation-cache.js'
+import type { BaselineReport, FixReport, ValidationResult, ValidationSummary, WorkspaceSummary } from '../lib/types.js'
 
-// Stencil settings schema definition
-const StencilSettingsSchema = z.object({
-  id: z.string().min(1, 'Stencil ID is required'),
-  name: z.string().min(1, 'Stencil name is required'),
-  version: z.string().min(1, 'Version is required'),
-  type: z.string().min(1, 'Stencil type is required'),
-  description: z.string().optional(),
-  files: z.array(z.string()).optional(),
-  include: z.array(z.string()).optional(),
-  extend: z.string().optional(),
-  variables: z.record(z.string(), z.any()).optional(),
-  metadata: z.record(z.string(), z.any()).optional()
-})
-
-interface ValidateOptions {
-  format: 'text' | 'json'
+export interface ValidateOptions extends Omit<ValidateStencilOptions, 'baseline' | 'cache'> {
+  format: 'text' | 'json' | 'sarif' | 'junit'
+  output?: string
   failOn: 'none' | 'warn' | 'error'
-  strict?: boolean
-  ignore?: string[]
-}
-
-interface ValidationResult {
-  path: string
-  type: 'error' | 'warning' | 'info'
-  message: string
-  details?: string
-}
-
-interface ValidationSummary {
-  success: boolean
-  path: string
-  errors: ValidationResult[]
-  warnings: ValidationResult[]
-  info: ValidationResult[]
-  totalFiles: number
-  validatedAt: string
+  recursive?: boolean
+  concurrency?: string
+  watch?: boolean
+  baseline?: string
+  updateBaseline?: boolean
+  cache?: boolean
+  cacheLocation?: string
+  changedSince?: string
 }
 
 export async function validateCommand(targetPath: string, options: ValidateOptions): Promise<number> {
   try {
     const absolutePath = resolve(process.cwd(), targetPath)
-    const results = await validateStencilDefinition(absolutePath, options)
+    const baselineFile = resolve(process.cwd(), options.baseline ?? BASELINE_FILE_NAME)
+    // The baseline is applied when the file exists, and ignored while it is rewritten
+    const validateOptions = {
+      ...options,
+      baseline: options.updateBaseline ? undefined : loadBaseline(baselineFile) ?? undefined,
+      cache: options.cache ? resolve(process.cwd(), options.cacheLocation ?? DEFAULT_CACHE_DIR) : undefined
+    }
     
-    if (options.format === 'json') {
-      console.log(JSON.stringify(results, null, 2))
-    } else {
-      printTextResults(results)
+    if (options.changedSince && !options.recursive) {
+      throw new Error('--changed-since requires --recursive')
     }
     
+    if (options.watch) {
+      if (options.recursive) {
+        throw new Error('--watch cannot be combined with --recursive')
+      }
+      if (options.fix || options.fixDryRun) {
+        throw new Error('--watch cannot be combined with --fix or --fix-dry-run')
+      }
+      if (options.updateBaseline) {
+        throw new Error('--watch cannot be combined with --update-baseline')
+      }
+      
+      const { watchStencil } = await import('./validate-watch.js')
+      const stencilRoot = resolve(process.cwd(), options.stencilRoot ?? '.')
+      // A fresh context per run picks up changed config files and referenced stencils
+      return await watchStencil(absolutePath, options, checks =>
+        validateStencil(absolutePath, validateOptions, { ...createValidationContext(validateOptions, stencilRoot), checks })
+      )
+    }
+    
+    if (options.recursive) {
+      const workspace = await validateWorkspace(absolutePath, {
+        ...validateOptions,
+        concurrency: parseInt(options.concurrency ?? '', 10) || undefined
+      })
+      if (options.updateBaseline) {
+        return writeBaseline(baselineFile, workspace.stencils)
+      }
+      writeReport(workspace, workspace.stencils, formatWorkspaceTextResults(workspace), options)
+      return determineWorkspaceExitCode(workspace, options.failOn)
+    }
+    
+    const results = await validateStencil(absolutePath, validateOptions)
+    if (options.updateBaseline) {
+      return writeBaseline(baselineFile, [results])
+    }
+    writeReport(results, [results], formatTextResults(results), options)
     return determineExitCode(results, options.failOn)
   } catch (error) {
     if (options.format === 'json') {
@@ -69,293 +90,237 @@ export async function validateCommand(targetPath: string, options: ValidateOptio
   }
 }
 
-async function validateStencilDefinition(path: string, options: ValidateOptions): Promise<ValidationSummary> {
-  const results: ValidationResult[] = []
-  
-  // Check if path exists and is a directory
-  if (!existsSync(path)) {
-    results.push({
-      path,
-      type: 'error',
-      message: 'Path does not exist'
-    })
-    return createSummary(path, results, 0)
-  }
+function writeBaseline(baselineFile: string, summaries: ValidationSummary[]): number {
+  const baseline = updateBaseline(loadBaseline(baselineFile), baselineFile, summaries)
+  saveBaseline(baseline)
   
-  if (!statSync(path).isDirectory()) {
-    results.push({
-      path,
-      type: 'error',
-      message: 'Path must be a directory'
-    })
-    return createSummary(path, results, 0)
-  }
-  
-  // Check for stencil-settings.yml
-  const settingsFile = join(path, 'stencil-settings.yml')
-  if (!existsSync(settingsFile)) {
-    results.push({
-      path: settingsFile,
-      type: 'error',
-      message: 'Required file stencil-settings.yml not found'
-    })
-    return createSummary(path, results, 0)
+  const recorded = summaries.reduce((sum, summary) => sum + summary.errors.length + summary.warnings.length, 0)
+  console.log(chalk.green(`📌 Baseline updated: ${recorded} findings recorded in ${relative(process.cwd(), baselineFile)}`))
+  return 0
+}
+
+function writeReport(
+  report: ValidationSummary | WorkspaceSummary,
+  summaries: ValidationSummary[],
+  text: string,
+  options: ValidateOptions
+) {
+  let formatted: string
+  switch (options.format) {
+    case 'json':
+      formatted = JSON.stringify(report, null, 2)
+      break
+    case 'sarif':
+      formatted = formatSarif(summaries, { toolVersion: getCliVersion(), baseDir: process.cwd() })
+      break
+    case 'junit':
+      formatted = formatJUnit(summaries, { baseDir: process.cwd(), failOn: options.failOn })
+      break
+    default:
+      formatted = stripVTControlCharacters(text)
   }
   
-  // Validate stencil-settings.yml
-  await validateSettingsFile(settingsFile, results, options)
-  
-  // Count total files processed
-  const allFiles = await glob('**/*', { cwd: path, nodir: true })
-  const totalFiles = allFiles.length
-  
-  // Validate file references if settings are valid
-  const settings = await loadStencilSettings(settingsFile)
-  if (settings) {
-    await validateFileReferences(path, settings, results, options)
-    await validateReferenceIntegrity(path, settings, results, options)
+  // With --output the report goes to the file and the console keeps the text report
+  if (options.output) {
+    writeFileSync(resolve(process.cwd(), options.output), formatted.endsWith('\n') ? formatted : `${formatted}\n`)
+    console.log(text)
+    console.log(chalk.gray(`📝 Report written to: ${options.output}`))
+  } else if (options.format === 'text') {
+    console.log(text)
+  } else {
+    console.log(formatted)
   }
-  
-  return createSummary(path, results, totalFiles)
 }
 
-async function validateSettingsFile(settingsFile: string, results: ValidationResult[], _options: ValidateOptions) {
+function formatResultCodeFrame(result: ValidationResult, highlight: (text: string) => string): string[] {
+  if (!result.location) return []
+  
   try {
-    const content = readFileSync(settingsFile, 'utf-8')
-    let settings: unknown
-    
-    try {
-      settings = parseYaml(content)
-    } catch (error) {
-      results.push({
-        path: settingsFile,
-        type: 'error',
-        message: 'Invalid YAML format',
-        details: error instanceof Error ? error.message : 'Unknown YAML parsing error'
-      })
-      return
-    }
-    
-    // Schema validation
-    const validation = StencilSettingsSchema.safeParse(settings)
-    if (!validation.success) {
-      validation.error.issues.forEach(err => {
-        results.push({
-          path: settingsFile,
-          type: 'error',
-          message: `Schema validation failed: ${err.path.join('.')} - ${err.message}`
-        })
-      })
-      return
-    }
-    
-    // Additional strict validation
-    if (_options.strict) {
-      await performStrictValidation(settingsFile, validation.data, results)
-    }
-    
-    results.push({
-      path: settingsFile,
-      type: 'info',
-      message: 'Stencil settings file is valid'
-    })
-    
-  } catch (error) {
-    results.push({
-      path: settingsFile,
-      type: 'error',
-      message: 'Failed to read stencil settings file',
-      details: error instanceof Error ? error.message : 'Unknown file reading error'
-    })
+    const source = readFileSync(result.path, 'utf-8')
+    return formatCodeFrame(source, result.location, { highlight, dim: chalk.gray }).map(line => `    ${line}`)
+  } catch {
+    return []
   }
 }
 
-async function performStrictValidation(settingsFile: string, settings: unknown, results: ValidationResult[]) {
-  // Type guard to ensure settings is an object
-  if (typeof settings !== 'object' || settings === null) return
+function formatTextResults(summary: ValidationSummary): string {
+  const lines: string[] = []
   
-  const settingsObj = settings as Record<string, unknown>
+  lines.push(chalk.bold('\n📋 ProMarker Stencil Validation Report'))
+  lines.push(chalk.gray('====================================='))
+  lines.push(`📁 Path: ${summary.path}`)
+  lines.push(`📊 Files: ${summary.totalFiles}`)
+  lines.push(`⏰ Validated: ${new Date(summary.validatedAt).toLocaleString()}` + (summary.cached ? chalk.gray(' (from cache)') : ''))
+  lines.push('')
   
-  // Check ID naming convention
-  if (typeof settingsObj.id === 'string' && !/^[a-z0-9-_]+$/.test(settingsObj.id)) {
-    results.push({
-      path: settingsFile,
-      type: 'warning',
-      message: 'Stencil ID should only contain lowercase letters, numbers, hyphens, and underscores'
-    })
+  if (summary.fixes) {
+    lines.push(...formatFixReport(summary.fixes, '  '))
+    lines.push('')
   }
   
-  // Check version format (simple semver check)
-  if (typeof settingsObj.version === 'string' && !/^\d+\.\d+\.\d+/.test(settingsObj.version)) {
-    results.push({
-      path: settingsFile,
-      type: 'warning',
-      message: 'Version should follow semantic versioning format (x.y.z)'
+  if (summary.errors.length > 0) {
+    lines.push(chalk.red.bold(`❌ Errors (${summary.errors.length}):`))
+    summary.errors.forEach(error => {
+      lines.push(chalk.red(`  • ${error.message}`))
+      if (error.details) {
+        lines.push(chalk.gray(`    ${error.details}`))
+      }
+      lines.push(chalk.gray(`    Location: ${error.path}${formatPosition(error.location)}`))
+      lines.push(...formatResultCodeFrame(error, chalk.red))
     })
+    lines.push('')
   }
   
-  // Check for description in strict mode
-  if (!settingsObj.description) {
-    results.push({
-      path: settingsFile,
-      type: 'warning',
-      message: 'Description is recommended for better documentation'
+  if (summary.warnings.length > 0) {
+    lines.push(chalk.yellow.bold(`⚠️  Warnings (${summary.warnings.length}):`))
+    summary.warnings.forEach(warning => {
+      lines.push(chalk.yellow(`  • ${warning.message}`))
+      if (warning.details) {
+        lines.push(chalk.gray(`    ${warning.details}`))
+      }
+      lines.push(chalk.gray(`    Location: ${warning.path}${formatPosition(warning.location)}`))
+      lines.push(...formatResultCodeFrame(warning, chalk.yellow))
     })
+    lines.push('')
   }
-}
-
-async function validateFileReferences(path: string, settings: unknown, results: ValidationResult[], _options: ValidateOptions) {
-  // Type guard to ensure settings is an object
-  if (typeof settings !== 'object' || settings === null) return
   
-  const settingsObj = settings as Record<string, unknown>
-  if (settingsObj.files && Array.isArray(settingsObj.files)) {
-    for (const file of settingsObj.files) {
-      if (typeof file === 'string') {
-        const filePath = join(path, file)
-        if (!existsSync(filePath)) {
-          results.push({
-            path: filePath,
-            type: 'error',
-            message: `Referenced file does not exist: ${file}`
-          })
-        } else {
-          results.push({
-            path: filePath,
-            type: 'info',
-            message: `Referenced file exists: ${file}`
-          })
-        }
-      }
-    }
+  if (summary.baseline) {
+    lines.push(...formatBaselineReport([summary.baseline], '  '))
+    lines.push('')
   }
   
-  // Check files/ directory exists if no explicit files list
-  if (!settingsObj.files) {
-    const filesDir = join(path, 'files')
-    if (existsSync(filesDir) && statSync(filesDir).isDirectory()) {
-      results.push({
-        path: filesDir,
-        type: 'info',
-        message: 'Default files/ directory found'
-      })
-    } else {
-      results.push({
-        path: filesDir,
-        type: 'warning',
-        message: 'No files/ directory found and no explicit files list provided'
-      })
-    }
+  if (summary.info.length > 0) {
+    lines.push(chalk.blue.bold(`ℹ️  Information (${summary.info.length}):`))
+    summary.info.forEach(info => {
+      lines.push(chalk.blue(`  • ${info.message}`))
+      lines.push(chalk.gray(`    Location: ${info.path}`))
+    })
+    lines.push('')
   }
+  
+  // Summary
+  if (summary.success) {
+    lines.push(chalk.green.bold('✅ Validation successful!'))
+  } else {
+    lines.push(chalk.red.bold('❌ Validation failed'))
+  }
+  
+  lines.push(chalk.gray(`\n📈 Summary: ${summary.errors.length} errors, ${summary.warnings.length} warnings, ${summary.info.length} info`))
+  
+  return lines.join('\n')
 }
 
-async function validateReferenceIntegrity(path: string, settings: unknown, results: ValidationResult[], _options: ValidateOptions) {
-  // Type guard to ensure settings is an object
-  if (typeof settings !== 'object' || settings === null) return
-  
-  const settingsObj = settings as Record<string, unknown>
+function formatFixReport(report: FixReport, indent: string): string[] {
+  const lines: string[] = []
   
-  // Check extend reference
-  if (settingsObj.extend && typeof settingsObj.extend === 'string') {
-    results.push({
-      path: join(path, 'stencil-settings.yml'),
-      type: 'warning',
-      message: `Extend reference found: ${settingsObj.extend} (cannot validate external references in Phase 1)`
-    })
+  if (report.applied) {
+    lines.push(chalk.green.bold(`${indent.slice(2)}🔧 Fixed (${report.fixes.length}):`))
+  } else {
+    lines.push(chalk.cyan.bold(`${indent.slice(2)}🔧 Fixable (${report.fixes.length}, dry run - no files changed):`))
   }
+  report.fixes.forEach(fix => {
+    lines.push(`${indent}• ${fix.message}: ${fix.from} → ${fix.to}` + chalk.gray(` (${fix.rule})`))
+  })
   
-  // Check include references
-  if (settingsObj.include && Array.isArray(settingsObj.include)) {
-    settingsObj.include.forEach((include: unknown) => {
-      if (typeof include === 'string') {
-        results.push({
-          path: join(path, 'stencil-settings.yml'),
-          type: 'warning',
-          message: `Include reference found: ${include} (cannot validate external references in Phase 1)`
-        })
-      }
+  if (!report.applied) {
+    report.diff.split('\n').forEach(line => {
+      const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.gray
+      lines.push(color(`${indent}${line}`))
     })
   }
+  
+  return lines
 }
 
-async function loadStencilSettings(settingsFile: string) {
-  try {
-    const content = readFileSync(settingsFile, 'utf-8')
-    return parseYaml(content)
-  } catch {
-    return null
+function formatBaselineReport(reports: BaselineReport[], indent: string): string[] {
+  const lines: string[] = []
+  const matched = reports.reduce((sum, report) => sum + report.matched, 0)
+  const fixed = reports.flatMap(report => report.fixed)
+  
+  lines.push(chalk.gray(`${indent.slice(2)}📌 Baseline: ${matched} known findings not shown (${relative(process.cwd(), reports[0].file)})`))
+  if (fixed.length > 0) {
+    lines.push(chalk.green.bold(`${indent.slice(2)}✨ Fixed since baseline (${fixed.length}):`))
+    fixed.forEach(entry => {
+      lines.push(chalk.green(`${indent}• ${entry.message}`) + chalk.gray(` (${entry.rule}, ${entry.file})`))
+    })
+    lines.push(chalk.gray(`${indent}Run with --update-baseline to remove them from the baseline`))
   }
+  
+  return lines
 }
 
-function createSummary(path: string, results: ValidationResult[], totalFiles: number): ValidationSummary {
-  const errors = results.filter(r => r.type === 'error')
-  const warnings = results.filter(r => r.type === 'warning')
-  const info = results.filter(r => r.type === 'info')
+function formatWorkspaceTextResults(workspace: WorkspaceSummary): string {
+  const lines: string[] = []
   
-  return {
-    success: errors.length === 0,
-    path,
-    errors,
-    warnings,
-    info,
-    totalFiles,
-    validatedAt: new Date().toISOString()
+  lines.push(chalk.bold('\n📋 ProMarker Workspace Validation Report'))
+  lines.push(chalk.gray('======================================='))
+  lines.push(`📁 Root: ${workspace.root}`)
+  const cached = workspace.stencils.filter(summary => summary.cached).length
+  lines.push(`📦 Stencils: ${workspace.totals.stencils}` + (cached > 0 ? chalk.gray(` (${cached} from cache)`) : ''))
+  if (workspace.changedSince) {
+    lines.push(chalk.gray(`⏭️  Unchanged since ${workspace.changedSince.ref}: ${workspace.changedSince.skipped} stencils skipped`))
   }
-}
-
-function printTextResults(summary: ValidationSummary) {
-  console.log(chalk.bold('\n📋 ProMarker Stencil Validation Report'))
-  console.log(chalk.gray('====================================='))
-  console.log(`📁 Path: ${summary.path}`)
-  console.log(`📊 Files: ${summary.totalFiles}`)
-  console.log(`⏰ Validated: ${new Date(summary.validatedAt).toLocaleString()}`)
-  console.log()
+  lines.push(`📊 Files: ${workspace.totals.files}`)
+  lines.push(`⏰ Validated: ${new Date(workspace.validatedAt).toLocaleString()}`)
+  lines.push('')
   
-  if (summary.errors.length > 0) {
-    console.log(chalk.red.bold(`❌ Errors (${summary.errors.length}):`))
+  workspace.stencils.forEach(summary => {
+    const name = relative(workspace.root, summary.path) || '.'
+    if (summary.success) {
+      const suffix = summary.warnings.length > 0 ? chalk.yellow(` (${summary.warnings.length} warnings)`) : ''
+      lines.push(chalk.green(`✅ ${name}`) + suffix)
+    } else {
+      lines.push(chalk.red(`❌ ${name}`) + chalk.gray(` (${summary.errors.length} errors, ${summary.warnings.length} warnings)`))
+    }
+    
+    if (summary.fixes) {
+      lines.push(...formatFixReport(summary.fixes, '    '))
+    }
     summary.errors.forEach(error => {
-      console.log(chalk.red(`  • ${error.message}`))
+      lines.push(chalk.red(`    • ${error.message}`))
       if (error.details) {
-        console.log(chalk.gray(`    ${error.details}`))
+        lines.push(chalk.gray(`      ${error.details}`))
       }
-      console.log(chalk.gray(`    Location: ${error.path}`))
     })
-    console.log()
-  }
-  
-  if (summary.warnings.length > 0) {
-    console.log(chalk.yellow.bold(`⚠️  Warnings (${summary.warnings.length}):`))
     summary.warnings.forEach(warning => {
-      console.log(chalk.yellow(`  • ${warning.message}`))
-      if (warning.details) {
-        console.log(chalk.gray(`    ${warning.details}`))
-      }
-      console.log(chalk.gray(`    Location: ${warning.path}`))
+      lines.push(chalk.yellow(`    • ${warning.message}`))
     })
-    console.log()
-  }
+  })
+  lines.push('')
   
-  if (summary.info.length > 0) {
-    console.log(chalk.blue.bold(`ℹ️  Information (${summary.info.length}):`))
-    summary.info.forEach(info => {
-      console.log(chalk.blue(`  • ${info.message}`))
-      console.log(chalk.gray(`    Location: ${info.path}`))
+  if (workspace.duplicateIds.length > 0) {
+    lines.push(chalk.red.bold(`❌ Duplicate stencil ids (${workspace.duplicateIds.length}):`))
+    workspace.duplicateIds.forEach(duplicate => {
+      lines.push(chalk.red(`  • ${duplicate.id}`))
+      duplicate.paths.forEach(path => lines.push(chalk.gray(`    ${relative(workspace.root, path)}`)))
     })
-    console.log()
+    lines.push('')
   }
   
-  // Summary
-  if (summary.success) {
-    console.log(chalk.green.bold('✅ Validation successful!'))
+  const baselineReports = workspace.stencils.flatMap(summary => (summary.baseline ? [summary.baseline] : []))
+  if (baselineReports.length > 0) {
+    lines.push(...formatBaselineReport(baselineReports, '  '))
+    lines.push('')
+  }
+  
+  if (workspace.success) {
+    lines.push(chalk.green.bold('✅ All stencils are valid!'))
   } else {
-    console.log(chalk.red.bold('❌ Validation failed'))
+    lines.push(chalk.red.bold(`❌ ${workspace.totals.failed} of ${workspace.totals.stencils} stencils failed validation`))
   }
   
-  console.log(chalk.gray(`\n📈 Summary: ${summary.errors.length} errors, ${summary.warnings.length} warnings, ${summary.info.length} info`))
+  const { totals } = workspace
+  lines.push(chalk.gray(`\n📈 Summary: ${totals.stencils} stencils, ${totals.errors} errors, ${totals.warnings} warnings, ${totals.info} info`))
+  
+  return lines.join('\n')
 }
 
 function determineExitCode(summary: ValidationSummary, failOn: string): number {
   if (summary.errors.length > 0) return 2
   if (failOn === 'warn' && summary.warnings.length > 0) return 1
   return 0
-}
\ No newline at end of file
+}
+
+function determineWorkspaceExitCode(workspace: WorkspaceSummary, failOn: string): number {
+  return workspace.stencils.reduce((worst, summary) => Math.max(worst, determineExitCode(summary, failOn)), 0)
+}
@@ -1,12 +1,16 @@
 #!/usr/bin/env node
 
-import { program } from 'commander'
+import { Option, program } from 'commander'
 import { createRequire } from 'module'
 
 // Import package.json for version info
 const require = createRequire(import.meta.url)
 const packageJson = require('../package.json')
 
+// --format with the supported values; the first one is the default
+const formatOption = (formats: string[], description = 'Output format') =>
+  new Option('--format <format>', description).choices(formats).default(formats[0])
+
 // Set up the main program
 program
   .name('promarker')
@@ -19,10 +23,28 @@ program
   .command('validate')
   .argument('[path]', 'Path to stencil directory (default: current directory)', '.')
   .description('Validate ProMarker stencil definitions in the specified directory')
-  .option('--format <format>', 'Output format (text|json)', 'text')
+  .addOption(formatOption(['text', 'json', 'sarif', 'junit']))
+  .option('-o, --output <file>', 'Write the report to a file (text output still goes to the console)')
   .option('--fail-on <level>', 'Exit code threshold (none|warn|error)', 'error')
-  .option('--strict', 'Enable strict validation mode')
+  .option('--strict', 'Enable strict rules (naming, semver and description checks)')
+  .option('-c, --config <file>', 'Path to a promarker.config file (default: searched up from each stencil)')
   .option('--ignore <patterns...>', 'Glob patterns to ignore')
+  .option('--stencil-root <path>', 'Root directory used to resolve extend/include references (default: current directory)')
+  .option('-r, --recursive', 'Validate every stencil found under the path (workspace mode)')
+  .option('-w, --watch', 'Re-validate the stencil whenever it or a referenced stencil changes')
+  .option('--fix', 'Rewrite stencil-settings.yml to correct auto-fixable findings')
+  .option('--fix-dry-run', 'Show the changes --fix would make without writing any file')
+  .option('--concurrency <number>', 'Number of stencils validated in parallel in workspace mode', '8')
+  .option('--baseline <file>', 'Baseline of known findings to leave out of the report (default: .promarker-baseline.json)')
+  .option('--update-baseline', 'Record the current errors and warnings in the baseline file')
+  .option('--cache', 'Skip stencils whose files, config and options are unchanged since the last cached run')
+  .option('--cache-location <dir>', 'Directory of the validation cache (default: .promarker-cache)')
+  .option('--changed-since <ref>', 'Only validate stencils affected by changes since a git ref (requires --recursive)')
+  .option('--remote', 'Also validate the stencil on the local ProMarker server')
+  .option('--profile <name>', 'Profile used for server requests (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: http://localhost:8080)')
+  .option('--timeout <ms>', 'Timeout for each server request in milliseconds (default: 10000)')
+  .option('--retries <count>', 'Retries for failed server requests (default: 2)')
   .action(async (path, options) => {
     const { validateCommand } = await import('./commands/validate.js')
     const exitCode = await validateCommand(path, options)
@@ -33,14 +55,233 @@ program
 program
   .command('doctor')
   .description('Check CLI environment and requirements')
-  .action(async () => {
+  .addOption(formatOption(['text', 'json']))
+  .option('--fail-on <level>', 'Exit code threshold (none|warn|error)', 'error')
+  .option('--profile <name>', 'Profile to check (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: http://localhost:8080)')
+  .option('--cache-location <dir>', 'Validation cache directory to check (default: .promarker-cache)')
+  .action(async options => {
     const { doctorCommand } = await import('./commands/doctor.js')
-    await doctorCommand()
+    const exitCode = await doctorCommand(options)
+    process.exit(exitCode)
+  })
+
+// Init command - scaffolding for new stencil definitions
+program
+  .command('init')
+  .argument('[path]', 'Directory of the new stencil (default: current directory)', '.')
+  .description('Create stencil-settings.yml and a files/ skeleton for a new stencil')
+  .option('--id <id>', 'Stencil id (lowercase letters, numbers, hyphens and underscores)')
+  .option('--name <name>', 'Stencil name')
+  .option('--type <type>', 'Stencil type')
+  .option('--stencil-version <version>', 'Stencil version (default: 1.0.0)')
+  .option('--description <text>', 'Stencil description (default: "<name> stencil")')
+  .option('--extend <ref>', 'Id or path of a base stencil to extend')
+  .option('--stencil-root <path>', 'Root directory used to resolve --extend (default: current directory)')
+  .option('--force', 'Overwrite an existing stencil-settings.yml')
+  .action(async (path, options) => {
+    const { initCommand } = await import('./commands/init.js')
+    const exitCode = await initCommand(path, options)
+    process.exit(exitCode)
+  })
+
+// Generate command - generation is delegated to the ProMarker server
+program
+  .command('generate')
+  .argument('<stencil>', 'Path to the stencil directory')
+  .description('Validate a stencil and generate files from it on the ProMarker server')
+  .requiredOption('--out <dir>', 'Directory the generated files are written to')
+  .option('--var <key=value>', 'Variable value (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+  .option('--vars-file <file>', 'YAML or JSON file with variable values (--var wins)')
+  .option('--force', 'Overwrite existing files in the output directory')
+  .addOption(formatOption(['text', 'json']))
+  .option('--strict', 'Enable strict rules for the validation run')
+  .option('-c, --config <file>', 'Path to a promarker.config file (default: searched up from the stencil)')
+  .option('--ignore <patterns...>', 'Glob patterns to ignore')
+  .option('--stencil-root <path>', 'Root directory used to resolve extend/include references (default: current directory)')
+  .option('--profile <name>', 'Profile used for server requests (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: http://localhost:8080)')
+  .option('--timeout <ms>', 'Timeout for each server request in milliseconds (default: 10000)')
+  .option('--retries <count>', 'Retries for failed server requests (default: 2)')
+  .action(async (stencil, options) => {
+    const { generateCommand } = await import('./commands/generate.js')
+    const exitCode = await generateCommand(stencil, options)
+    process.exit(exitCode)
+  })
+
+// Preview command - local rendering for review; generation stays on the server
+program
+  .command('preview')
+  .argument('<stencil>', 'Path to the stencil directory')
+  .description('Render the templates of a stencil in memory and show the resulting files (writes nothing)')
+  .option('--vars <file>', 'YAML or JSON file with sample variable values (--var wins)')
+  .option('--var <key=value>', 'Variable value (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+  .option('--file <path>', 'Print a rendered file by output or source path (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+  .option('--all', 'Print every rendered file')
+  .option('--pager', 'Show the output in $PAGER (default: less -R) when stdout is a terminal')
+  .addOption(formatOption(['text', 'json']))
+  .option('-c, --config <file>', 'Path to a promarker.config file (default: searched up from the stencil)')
+  .option('--ignore <patterns...>', 'Glob patterns to ignore')
+  .option('--stencil-root <path>', 'Root directory used to resolve extend/include references (default: current directory)')
+  .action(async (stencil, options) => {
+    const { previewCommand } = await import('./commands/preview.js')
+    const exitCode = await previewCommand(stencil, options)
+    process.exit(exitCode)
+  })
+
+// Schema command - stencil-settings.yml schema for editors and other tools
+program
+  .command('schema')
+  .description('Print the schema of stencil-settings.yml or of the catalog JSON output')
+  .addOption(formatOption(['json-schema'], 'Schema format'))
+  .option('--document <name>', 'Document described by the schema (stencil-settings|catalog)', 'stencil-settings')
+  .option('--schema-version <version>', 'Settings schema version (default: the current version)')
+  .option('-o, --output <file>', 'Write the schema to a file instead of stdout')
+  .action(async options => {
+    const { schemaCommand } = await import('./commands/schema.js')
+    const exitCode = await schemaCommand(options)
+    process.exit(exitCode)
+  })
+
+// Catalog command - index of every stencil in a workspace
+program
+  .command('catalog')
+  .argument('[root]', 'Workspace root (default: current directory)', '.')
+  .description('Build an index of every stencil under the workspace root')
+  .addOption(formatOption(['json', 'markdown']))
+  .option('-o, --output <file>', 'Write the catalog to a file instead of stdout')
+  .option('--strict', 'Enable strict rules for the validation status')
+  .option('-c, --config <file>', 'Path to a promarker.config file (default: searched up from each stencil)')
+  .option('--ignore <patterns...>', 'Glob patterns to ignore')
+  .option('--stencil-root <path>', 'Root directory used to resolve extend/include references (default: the workspace root)')
+  .action(async (root, options) => {
+    const { catalogCommand } = await import('./commands/catalog.js')
+    const exitCode = await catalogCommand(root, options)
+    process.exit(exitCode)
+  })
+
+// Graph command - extend/include dependencies between stencils
+program
+  .command('graph')
+  .argument('[root]', 'Workspace root (default: current directory)', '.')
+  .description('Show the extend/include graph of the stencils under the workspace root')
+  .addOption(formatOption(['text', 'dot', 'mermaid', 'json']))
+  .option('-o, --output <file>', 'Write the graph to a file instead of stdout')
+  .option('--affected <stencil>', 'Only show the stencils affected by a change to this stencil (id or path)')
+  .option('--ignore <patterns...>', 'Glob patterns to ignore')
+  .option('--stencil-root <path>', 'Root directory used to resolve extend/include references (default: the workspace root)')
+  .action(async (root, options) => {
+    const { graphCommand } = await import('./commands/graph.js')
+    const exitCode = await graphCommand(root, options)
+    process.exit(exitCode)
+  })
+
+// Server commands - local ProMarker server integration
+const server = program
+  .command('server')
+  .description('Interact with the local ProMarker server')
+
+server
+  .command('status')
+  .description('Check whether the ProMarker server is reachable')
+  .addOption(formatOption(['text', 'json']))
+  .option('--profile <name>', 'Profile used for server requests (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: http://localhost:8080)')
+  .option('--timeout <ms>', 'Timeout for each server request in milliseconds (default: 10000)')
+  .option('--retries <count>', 'Retries for failed server requests (default: 2)')
+  .action(async options => {
+    const { serverStatusCommand } = await import('./commands/server.js')
+    const exitCode = await serverStatusCommand(options)
+    process.exit(exitCode)
+  })
+
+// Authentication commands - profiles for server/SaaS connections
+program
+  .command('login')
+  .description('Log in to a ProMarker server and store the token in a profile')
+  .option('--profile <name>', 'Profile to store the credentials in (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: the profile URL or http://localhost:8080)')
+  .option('--token <token>', 'Access token (default: read from stdin or prompted)')
+  .option('--timeout <ms>', 'Timeout for each server request in milliseconds (default: 10000)')
+  .option('--retries <count>', 'Retries for failed server requests (default: 2)')
+  .action(async options => {
+    const { loginCommand } = await import('./commands/auth.js')
+    const exitCode = await loginCommand(options)
+    process.exit(exitCode)
+  })
+
+program
+  .command('logout')
+  .description('Remove the stored token of a profile')
+  .option('--profile <name>', 'Profile to log out of (default: PROMARKER_PROFILE or "default")')
+  .action(async options => {
+    const { logoutCommand } = await import('./commands/auth.js')
+    const exitCode = await logoutCommand(options)
+    process.exit(exitCode)
+  })
+
+program
+  .command('whoami')
+  .description('Show the user the active profile is logged in as')
+  .addOption(formatOption(['text', 'json']))
+  .option('--profile <name>', 'Profile to use (default: PROMARKER_PROFILE or "default")')
+  .option('--server-url <url>', 'Base URL of the ProMarker server (default: the profile URL or http://localhost:8080)')
+  .option('--timeout <ms>', 'Timeout for each server request in milliseconds (default: 10000)')
+  .option('--retries <count>', 'Retries for failed server requests (default: 2)')
+  .action(async options => {
+    const { whoamiCommand } = await import('./commands/auth.js')
+    const exitCode = await whoamiCommand(options)
+    process.exit(exitCode)
+  })
+
+// Diff command - compare two versions of a stencil and check the version bump
+program
+  .command('diff')
+  .description('Compare two versions of a stencil and check that the version bump covers the changes')
+  .argument('<old>', 'Old stencil directory (or the stencil directory with --base)')
+  .argument('[new]', 'New stencil directory')
+  .option('--base <ref>', 'Compare the stencil directory with its version at this git ref')
+  .addOption(formatOption(['text', 'json']))
+  .action(async (oldPath, newPath, options) => {
+    const { diffCommand } = await import('./commands/diff.js')
+    const exitCode = await diffCommand(oldPath, newPath, options)
+    process.exit(exitCode)
   })
 
 // Export the program for testing purposes
 export { program }
 
+// Validation API for build scripts and tests
+export { validateStencil, validateWorkspace } from './lib/validator.js'
+export type { ValidateStencilOptions, ValidateWorkspaceOptions } from './lib/validator.js'
+export type {
+  BaselineEntry,
+  BaselineReport,
+  DuplicateStencilId,
+  FixReport,
+  SettingsFix,
+  ValidationSummary,
+  WorkspaceSummary
+} from './lib/types.js'
+
+// Plugin API for custom validation rules
+export { definePlugin } from './lib/plugins.js'
+export type { PluginFinding, PluginRule, PluginRuleContext, PromarkerPlugin } from './lib/plugins.js'
+export type { ValidationResult } from './lib/types.js'
+export type { SourcePosition, SourceRange } from './lib/source-location.js'
+
+// Environment checks behind promarker doctor
+export { DOCTOR_CHECKS, runDoctorChecks } from './lib/doctor-checks.js'
+export type { DoctorCheck, DoctorContext, DoctorResult, EnvironmentCheck } from './lib/doctor-checks.js'
+
+// Workspace catalog behind promarker catalog
+export { buildCatalog, CATALOG_SCHEMA_VERSION, formatCatalogMarkdown, toCatalogJsonSchema } from './lib/catalog.js'
+export type { Catalog, CatalogEntry, CatalogReference } from './lib/catalog.js'
+
+// Dependency graph behind promarker graph
+export { buildStencilGraph, findAffectedStencils, formatGraphDot, formatGraphMermaid } from './lib/stencil-graph.js'
+export type { AffectedStencil, GraphEdge, GraphNode, StencilGraph } from './lib/stencil-graph.js'
+
 // Run the CLI if this file is executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   program.parse()
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { gunzipSync } from 'zlib'
+
+export interface ArchiveEntry {
+  // Relative path using forward slashes
+  path: string
+  content: Buffer
+  mode: number
+}
+
+export interface ManifestEntry {
+  path: string
+  size: number
+  sha256: string
+}
+
+const BLOCK_SIZE = 512
+
+export interface ReadArchiveOptions {
+  // Return symlinks as files holding the link target, the way git stores them,
+  // instead of rejecting them
+  symlinksAsFiles?: boolean
+}
+
+/**
+ * Reads the regular files of a tar archive (gzip compressed or not).
+ * Supports ustar, pax and GNU long names; link entries are rejected (unless
+ * `symlinksAsFiles` is set) and paths that would escape the output directory
+ * are refused.
+ */
+export function readArchive(data: Buffer, options: ReadArchiveOptions = {}): ArchiveEntry[] {
+  const tar = data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data
+  const entries: ArchiveEntry[] = []
+  let longName: string | undefined
+  let longLinkName: string | undefined
+  let offset = 0
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE)
+    if (header.every(byte => byte === 0)) break
+
+    const size = readOctal(header, 124, 12)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const content = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size)
+    if (content.length < size) {
+      throw new Error('Archive is truncated')
+    }
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    const prefix = header.subarray(257, 262).toString() === 'ustar' ? readString(header, 345, 155) : ''
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100))
+    const linkName = longLinkName ?? readString(header, 157, 100)
+    longName = undefined
+    longLinkName = undefined
+
+    switch (type) {
+      case 'x':
+        longName = parsePaxRecord(content, 'path')
+        longLinkName = parsePaxRecord(content, 'linkpath')
+        break
+      case 'L':
+        longName = readString(content, 0, content.length)
+        break
+      case 'K':
+        longLinkName = readString(content, 0, content.length)
+        break
+      case '0':
+      case '7':
+        entries.push({ path: normalizeEntryPath(name), content: Buffer.from(content), mode: readOctal(header, 100, 8) })
+        break
+      case '2':
+        if (options.symlinksAsFiles) {
+          entries.push({ path: normalizeEntryPath(name), content: Buffer.from(linkName), mode: 0o644 })
+          break
+        }
+        throw new Error(`Archive entry ${name} is a link, which is not supported`)
+      case '1':
+        throw new Error(`Archive entry ${name} is a link, which is not supported`)
+      default:
+        // Directories and global headers carry nothing to extract
+        break
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Writes archive entries below the output directory and returns a manifest.
+ * Nothing is written when an existing file would be overwritten without
+ * `force`, so a refused run leaves the output directory untouched.
+ */
+export function extractArchive(entries: ArchiveEntry[], outDir: string, options: { force?: boolean } = {}): ManifestEntry[] {
+  const targets = entries.map(entry => {
+    const target = resolve(outDir, entry.path)
+    const relativePath = relative(outDir, target)
+    if (!relativePath || relativePath.startsWith(`..${sep}`) || relativePath === '..') {
+      throw new Error(`Archive entry ${entry.path} is outside of the output directory`)
+    }
+    return { entry, target }
+  })
+
+  const existing = targets.filter(({ target }) => existsSync(target)).map(({ entry }) => entry.path)
+  if (existing.length > 0 && !options.force) {
+    throw new Error(`Refusing to overwrite existing files (use --force): ${existing.join(', ')}`)
+  }
+
+  return targets.map(({ entry, target }) => {
+    mkdirSync(dirname(target), { recursive: true })
+    // Keep the executable bits of generated scripts
+    writeFileSync(target, entry.content, { mode: entry.mode & 0o777 || 0o644 })
+    return {
+      path: entry.path,
+      size: entry.content.length,
+      sha256: createHash('sha256').update(entry.content).digest('hex')
+    }
+  })
+}
+
+function normalizeEntryPath(name: string): string {
+  const segments = name.split('/').filter(segment => segment !== '' && segment !== '.')
+  if (name.startsWith('/') || /^[a-zA-Z]:/.test(name) || segments.includes('..') || segments.length === 0) {
+    throw new Error(`Archive entry has an unsafe path: ${name}`)
+  }
+  return join(...segments).split(sep).join('/')
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8')
+}
+
+function readOctal(block: Buffer, start: number, length: number): number {
+  const value = readString(block, start, length).trim()
+  return value ? parseInt(value, 8) : 0
+}
+
+// Pax extended headers are "<length> <key>=<value>\n" records
+function parsePaxRecord(content: Buffer, key: string): string | undefined {
+  const records = content.toString('utf-8').split('\n')
+  for (const record of records) {
+    const match = /^\d+ ([^=]+)=(.*)$/.exec(record)
+    if (match && match[1] === key) return match[2]
+  }
+  return undefined
+}
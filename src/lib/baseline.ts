@@ -0,0 +1,152 @@
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, relative, sep } from 'path'
+import { z } from 'zod'
+import type { BaselineEntry, ValidationResult, ValidationSummary } from './types.js'
+
+export const BASELINE_FILE_NAME = '.promarker-baseline.json'
+
+export interface Baseline {
+  // Absolute path of the baseline file; entry paths are relative to its directory
+  file: string
+  entries: BaselineEntry[]
+}
+
+const BaselineFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(z.object({
+    stencil: z.string(),
+    rule: z.string(),
+    file: z.string(),
+    fingerprint: z.string(),
+    message: z.string()
+  }))
+})
+
+/**
+ * Loads a baseline file. Returns null when the file does not exist; an
+ * unreadable or malformed baseline is fatal.
+ */
+export function loadBaseline(file: string): Baseline | null {
+  if (!existsSync(file)) return null
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Failed to read baseline file ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const validation = BaselineFileSchema.safeParse(raw)
+  if (!validation.success) {
+    const issues = validation.error.issues.map(issue => `${issue.path.join('.')} - ${issue.message}`).join('; ')
+    throw new Error(`Invalid baseline file ${file}: ${issues}`)
+  }
+  return { file, entries: validation.data.entries }
+}
+
+export function saveBaseline(baseline: Baseline) {
+  // Sorted entries keep diffs of the committed file small
+  const entries = [...baseline.entries].sort((a, b) =>
+    a.stencil.localeCompare(b.stencil) || a.file.localeCompare(b.file) || a.rule.localeCompare(b.rule) ||
+    a.message.localeCompare(b.message) || a.fingerprint.localeCompare(b.fingerprint)
+  )
+  writeFileSync(baseline.file, JSON.stringify({ version: 1, entries }, null, 2) + '\n')
+}
+
+/**
+ * Returns the baseline entries for the errors and warnings of a summary.
+ */
+export function createBaselineEntries(summary: ValidationSummary, baselineFile: string): BaselineEntry[] {
+  const baseDir = dirname(baselineFile)
+  const stencil = toBaselinePath(baseDir, summary.path)
+  return [...summary.errors, ...summary.warnings].map(result => createEntry(result, stencil, baseDir))
+}
+
+/**
+ * Replaces the entries of the validated stencils with their current findings.
+ * Entries of other stencils are kept, so that validating part of a workspace
+ * does not drop the rest of the baseline.
+ */
+export function updateBaseline(existing: Baseline | null, baselineFile: string, summaries: ValidationSummary[]): Baseline {
+  const baseDir = dirname(baselineFile)
+  const validated = new Set(summaries.map(summary => toBaselinePath(baseDir, summary.path)))
+  return {
+    file: baselineFile,
+    entries: [
+      ...(existing?.entries ?? []).filter(entry => !validated.has(entry.stencil)),
+      ...summaries.flatMap(summary => createBaselineEntries(summary, baselineFile))
+    ]
+  }
+}
+
+/**
+ * Removes findings recorded in the baseline from a summary and lists the
+ * stencil's baseline entries that are no longer reported.
+ */
+export function applyBaseline(summary: ValidationSummary, baseline: Baseline) {
+  const baseDir = dirname(baseline.file)
+  const stencil = toBaselinePath(baseDir, summary.path)
+
+  // Count per key, so that a finding reported twice needs two entries
+  const remaining = new Map<string, BaselineEntry[]>()
+  for (const entry of baseline.entries.filter(entry => entry.stencil === stencil)) {
+    const key = entryKey(entry)
+    remaining.set(key, [...(remaining.get(key) ?? []), entry])
+  }
+
+  let matched = 0
+  const isNew = (result: ValidationResult) => {
+    const entries = remaining.get(entryKey(createEntry(result, stencil, baseDir)))
+    if (!entries?.length) return true
+    entries.pop()
+    matched++
+    return false
+  }
+
+  summary.errors = summary.errors.filter(isNew)
+  summary.warnings = summary.warnings.filter(isNew)
+  summary.success = summary.errors.length === 0
+  summary.baseline = {
+    file: baseline.file,
+    matched,
+    fixed: [...remaining.values()].flat()
+  }
+}
+
+function createEntry(result: ValidationResult, stencil: string, baseDir: string): BaselineEntry {
+  const file = toBaselinePath(baseDir, result.path)
+  return {
+    stencil,
+    rule: result.rule,
+    file,
+    fingerprint: fingerprint(result, file),
+    message: result.message
+  }
+}
+
+// Line numbers are left out so that findings survive edits above them;
+// the text of the reported line tells apart equal findings in one file
+function fingerprint(result: ValidationResult, file: string): string {
+  return createHash('sha256')
+    .update([result.rule, file, result.message, readSourceLine(result)].join('\0'))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+function readSourceLine(result: ValidationResult): string {
+  if (!result.location) return ''
+  try {
+    return readFileSync(result.path, 'utf-8').split(/\r?\n/)[result.location.start.line - 1]?.trim() ?? ''
+  } catch {
+    return ''
+  }
+}
+
+function entryKey(entry: BaselineEntry): string {
+  return [entry.stencil, entry.rule, entry.file, entry.fingerprint].join('\0')
+}
+
+function toBaselinePath(baseDir: string, path: string): string {
+  return relative(baseDir, path).split(sep).join('/') || '.'
+}
@@ -0,0 +1,249 @@
+import { join, relative, resolve, sep } from 'path'
+import { z } from 'zod'
+import { getCliVersion } from './package-info.js'
+import { createReferenceResolver, type ReferenceResolver } from './reference-resolver.js'
+import { listOutputSources } from './output-paths.js'
+import { createIgnoreMatcher } from './ignore-rules.js'
+import { validateWorkspace, type ValidateWorkspaceOptions } from './validator.js'
+import type { ValidationSummary } from './types.js'
+
+export const CATALOG_SCHEMA_VERSION = 1
+
+const CatalogReferenceSchema = z.object({
+  ref: z.string().describe('Reference as written in stencil-settings.yml'),
+  path: z.string().optional().describe('Path of the referenced stencil relative to the catalog root; missing when unresolved'),
+  id: z.string().optional().describe('Id of the referenced stencil')
+})
+
+const CatalogVariableSchema = z.object({
+  name: z.string(),
+  type: z.string().describe('Variable type: string, number, boolean, enum or array'),
+  required: z.boolean(),
+  default: z.unknown().optional(),
+  description: z.string().optional(),
+  values: z.array(z.union([z.string(), z.number()])).optional().describe('Allowed values of enum variables'),
+  pattern: z.string().optional().describe('Regular expression string values must match'),
+  items: z.string().optional().describe('Item type of array variables')
+})
+
+const CatalogEntrySchema = z.object({
+  path: z.string().describe('Stencil directory relative to the catalog root'),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  version: z.string().optional(),
+  type: z.string().optional(),
+  description: z.string().optional(),
+  variables: z.array(CatalogVariableSchema).describe('Variables declared by the stencil itself'),
+  files: z.array(z.string()).describe('Files the stencil renders, relative to the stencil directory'),
+  extend: CatalogReferenceSchema.nullable().describe('Base stencil, null when the stencil extends nothing'),
+  include: z.array(CatalogReferenceSchema),
+  usedBy: z.array(z.string()).describe('Paths of the stencils that extend or include this stencil'),
+  validation: z.object({
+    status: z.enum(['valid', 'warnings', 'invalid']),
+    errors: z.number().int(),
+    warnings: z.number().int()
+  })
+})
+
+export const CatalogSchema = z.object({
+  schemaVersion: z.literal(CATALOG_SCHEMA_VERSION).describe('Version of the catalog format'),
+  generator: z.string().describe('CLI that generated the catalog, e.g. @promarker/cli 1.2.0'),
+  generatedAt: z.string().describe('ISO 8601 timestamp'),
+  stencils: z.array(CatalogEntrySchema)
+})
+
+export type Catalog = z.infer<typeof CatalogSchema>
+export type CatalogEntry = z.infer<typeof CatalogEntrySchema>
+export type CatalogReference = z.infer<typeof CatalogReferenceSchema>
+
+/**
+ * Returns the JSON Schema (draft-07) of the catalog JSON output.
+ */
+export function toCatalogJsonSchema(): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(CatalogSchema, { target: 'draft-7', unrepresentable: 'any' })
+  return {
+    $schema,
+    title: `ProMarker stencil catalog (schemaVersion ${CATALOG_SCHEMA_VERSION})`,
+    ...jsonSchema
+  }
+}
+
+/**
+ * Validates every stencil under a workspace root and indexes them: metadata,
+ * variables, rendered files, references between stencils and validation status.
+ */
+export async function buildCatalog(root: string, options: ValidateWorkspaceOptions = {}): Promise<Catalog> {
+  root = resolve(process.cwd(), root)
+  const workspace = await validateWorkspace(root, options)
+
+  const stencilRoot = resolve(process.cwd(), options.stencilRoot ?? root)
+  const resolver = createReferenceResolver(stencilRoot)
+  const toPath = (dir: string) => relative(root, dir).split(sep).join('/') || '.'
+
+  const stencils: CatalogEntry[] = []
+  for (const summary of workspace.stencils) {
+    stencils.push(await createEntry(summary, resolver, stencilRoot, options, toPath))
+  }
+
+  // Reverse the extend/include edges
+  for (const entry of stencils) {
+    for (const reference of [...(entry.extend ? [entry.extend] : []), ...entry.include]) {
+      const target = stencils.find(stencil => stencil.path === reference.path)
+      if (target && !target.usedBy.includes(entry.path)) target.usedBy.push(entry.path)
+    }
+  }
+
+  return CatalogSchema.parse({
+    schemaVersion: CATALOG_SCHEMA_VERSION,
+    generator: `@promarker/cli ${getCliVersion()}`,
+    generatedAt: new Date().toISOString(),
+    stencils
+  })
+}
+
+async function createEntry(
+  summary: ValidationSummary,
+  resolver: ReferenceResolver,
+  stencilRoot: string,
+  options: ValidateWorkspaceOptions,
+  toPath: (dir: string) => string
+): Promise<CatalogEntry> {
+  const dir = summary.path
+  const settings = (await resolver.load(dir)).settings ?? {}
+
+  const toReference = async (ref: string): Promise<CatalogReference> => {
+    const target = await resolver.resolve(ref, dir)
+    return { ref, ...(target && { path: toPath(target.dir), id: target.id }) }
+  }
+
+  const ignoreMatcher = createIgnoreMatcher([stencilRoot, dir], options.ignore)
+  const files = (await listOutputSources(dir, settings)).filter(file => !ignoreMatcher.ignores(join(dir, file)))
+
+  return {
+    path: toPath(dir),
+    id: asString(settings.id),
+    name: asString(settings.name),
+    version: asString(settings.version),
+    type: asString(settings.type),
+    description: asString(settings.description),
+    variables: toVariables(settings.variables),
+    files,
+    extend: typeof settings.extend === 'string' ? await toReference(settings.extend) : null,
+    include: await Promise.all((Array.isArray(settings.include) ? settings.include : []).map(ref => toReference(String(ref)))),
+    usedBy: [],
+    validation: {
+      status: summary.errors.length > 0 ? 'invalid' : summary.warnings.length > 0 ? 'warnings' : 'valid',
+      errors: summary.errors.length,
+      warnings: summary.warnings.length
+    }
+  }
+}
+
+function toVariables(variables: unknown): CatalogEntry['variables'] {
+  if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) return []
+
+  return Object.entries(variables as Record<string, unknown>).map(([name, value]) => {
+    const definition = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {}
+    return {
+      name,
+      type: asString(definition.type) ?? 'string',
+      required: definition.required === true,
+      ...(definition.default !== undefined && { default: definition.default }),
+      ...(typeof definition.description === 'string' && { description: definition.description }),
+      ...(Array.isArray(definition.values) && {
+        values: definition.values.map(item => (typeof item === 'number' ? item : String(item)))
+      }),
+      ...(typeof definition.pattern === 'string' && { pattern: definition.pattern }),
+      ...(typeof definition.items === 'string' && { items: definition.items })
+    }
+  })
+}
+
+// YAML turns unquoted values like 1.0 into numbers
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined
+}
+
+/**
+ * Renders a catalog as Markdown documentation: an overview table followed by
+ * one section per stencil.
+ */
+export function formatCatalogMarkdown(catalog: Catalog): string {
+  const lines: string[] = []
+  const anchor = (path: string) => `stencil-${path.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+  const title = (entry: CatalogEntry) => entry.name ?? entry.id ?? entry.path
+  const link = (path: string) => {
+    const target = catalog.stencils.find(stencil => stencil.path === path)
+    return target ? `[${escapeMarkdown(title(target))}](#${anchor(path)})` : `\`${path}\``
+  }
+  const reference = (ref: CatalogReference) => (ref.path ? link(ref.path) : `\`${ref.ref}\` (unresolved)`)
+
+  lines.push('# Stencil Catalog')
+  lines.push('')
+  lines.push(`Generated by ${catalog.generator} on ${catalog.generatedAt}. ${catalog.stencils.length} stencils.`)
+  lines.push('')
+  lines.push('| Stencil | Id | Version | Type | Status | Description |')
+  lines.push('|---------|----|---------|------|--------|-------------|')
+  for (const entry of catalog.stencils) {
+    lines.push(`| ${link(entry.path)} | ${code(entry.id)} | ${escapeMarkdown(entry.version ?? '')} | ${escapeMarkdown(entry.type ?? '')} | ${formatStatus(entry)} | ${escapeMarkdown(entry.description ?? '')} |`)
+  }
+
+  for (const entry of catalog.stencils) {
+    lines.push('')
+    lines.push(`<a id="${anchor(entry.path)}"></a>`)
+    lines.push('')
+    lines.push(`## ${escapeMarkdown(title(entry))}`)
+    lines.push('')
+    if (entry.description) {
+      lines.push(escapeMarkdown(entry.description))
+      lines.push('')
+    }
+
+    if (entry.id) lines.push(`- **Id**: ${code(entry.id)}`)
+    if (entry.version) lines.push(`- **Version**: ${escapeMarkdown(entry.version)}`)
+    if (entry.type) lines.push(`- **Type**: ${escapeMarkdown(entry.type)}`)
+    lines.push(`- **Path**: \`${entry.path}\``)
+    if (entry.extend) lines.push(`- **Extends**: ${reference(entry.extend)}`)
+    if (entry.include.length > 0) lines.push(`- **Includes**: ${entry.include.map(reference).join(', ')}`)
+    if (entry.usedBy.length > 0) lines.push(`- **Used by**: ${entry.usedBy.map(link).join(', ')}`)
+    lines.push(`- **Validation**: ${formatStatus(entry)}`)
+
+    if (entry.variables.length > 0) {
+      lines.push('')
+      lines.push('### Variables')
+      lines.push('')
+      lines.push('| Name | Type | Required | Default | Description |')
+      lines.push('|------|------|----------|---------|-------------|')
+      for (const variable of entry.variables) {
+        const type = variable.values ? `enum (${variable.values.join(', ')})` : variable.items ? `array of ${variable.items}` : variable.type
+        const defaultValue = variable.default === undefined ? '' : `\`${escapeMarkdown(JSON.stringify(variable.default))}\``
+        lines.push(`| \`${variable.name}\` | ${escapeMarkdown(type)} | ${variable.required ? 'yes' : 'no'} | ${defaultValue} | ${escapeMarkdown(variable.description ?? '')} |`)
+      }
+    }
+
+    if (entry.files.length > 0) {
+      lines.push('')
+      lines.push('### Files')
+      lines.push('')
+      entry.files.forEach(file => lines.push(`- \`${file}\``))
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+function formatStatus(entry: CatalogEntry): string {
+  const { status, errors, warnings } = entry.validation
+  if (status === 'invalid') return `❌ ${errors} errors`
+  if (status === 'warnings') return `⚠️ ${warnings} warnings`
+  return '✅ valid'
+}
+
+function code(value?: string): string {
+  return value ? `\`${value}\`` : ''
+}
+
+// Table cells break on pipes and line breaks
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
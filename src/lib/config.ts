@@ -0,0 +1,114 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, extname, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { loadPlugins, type PromarkerPlugin } from './plugins.js'
+import { RULES } from './rules.js'
+
+export const CONFIG_FILE_NAMES = [
+  'promarker.config.json',
+  'promarker.config.yml',
+  'promarker.config.yaml',
+  'promarker.config.js'
+]
+
+export const RuleSeveritySchema = z.enum(['off', 'info', 'warn', 'error'])
+
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>
+
+export const PromarkerConfigSchema = z.object({
+  rules: z.record(z.string(), RuleSeveritySchema).optional(),
+  plugins: z.array(z.unknown()).optional(),
+  helpers: z.array(z.string().min(1)).optional()
+})
+
+export interface PromarkerConfig {
+  // Absolute path of the config file, undefined when no config file was found
+  path?: string
+  rules: Record<string, RuleSeverity>
+  plugins: PromarkerPlugin[]
+  // Absolute paths of the plugin modules loaded from the config file
+  pluginFiles: string[]
+  // Handlebars helpers the ProMarker server provides, on top of the built-in ones
+  helpers?: string[]
+}
+
+const EMPTY_CONFIG: PromarkerConfig = { rules: {}, plugins: [], pluginFiles: [] }
+
+/**
+ * Looks for a promarker.config.(json|yml|yaml|js) file in the given directory
+ * and its parents, returning the first one found.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = resolve(startDir)
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name)
+      if (existsSync(candidate)) return candidate
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) return undefined
+    dir = parent
+  }
+}
+
+/**
+ * Loads and validates a config file. Invalid config files are fatal, since
+ * silently falling back to defaults would hide the problem in CI.
+ */
+export async function loadConfig(configFile: string): Promise<PromarkerConfig> {
+  let raw: unknown
+  try {
+    if (extname(configFile) === '.js') {
+      const module = await import(pathToFileURL(configFile).href)
+      raw = module.default ?? module
+    } else {
+      const content = readFileSync(configFile, 'utf-8')
+      raw = extname(configFile) === '.json' ? JSON.parse(content) : parseYaml(content)
+    }
+  } catch (error) {
+    throw new Error(`Failed to load config file ${configFile}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const validation = PromarkerConfigSchema.safeParse(raw ?? {})
+  if (!validation.success) {
+    const issues = validation.error.issues.map(issue => `${issue.path.join('.')} - ${issue.message}`).join('; ')
+    throw new Error(`Invalid config file ${configFile}: ${issues}`)
+  }
+
+  const { plugins, files: pluginFiles } = await loadPlugins(validation.data.plugins ?? [], configFile)
+  const builtIn = plugins.flatMap(plugin => plugin.rules).filter(rule => RULES[rule.id])
+  if (builtIn.length > 0) {
+    throw new Error(`Plugin rules must not reuse built-in rule ids: ${builtIn.map(rule => rule.id).join(', ')}`)
+  }
+
+  return {
+    path: configFile,
+    rules: validation.data.rules ?? {},
+    plugins,
+    pluginFiles,
+    helpers: validation.data.helpers
+  }
+}
+
+/**
+ * Creates a loader that resolves the config for a stencil directory. An
+ * explicit `--config` path wins over discovery; results are cached per file.
+ */
+export function createConfigLoader(explicitPath?: string): (stencilDir: string) => Promise<PromarkerConfig> {
+  const cache = new Map<string, Promise<PromarkerConfig>>()
+
+  return async (stencilDir: string) => {
+    const configFile = explicitPath ? resolve(process.cwd(), explicitPath) : findConfigFile(stencilDir)
+    if (!configFile) return EMPTY_CONFIG
+
+    let config = cache.get(configFile)
+    if (!config) {
+      config = loadConfig(configFile)
+      cache.set(configFile, config)
+    }
+    return config
+  }
+}
@@ -0,0 +1,427 @@
+import { accessSync, constants, existsSync, statSync } from 'fs'
+import { access } from 'fs/promises'
+import { delimiter, dirname, join, relative, resolve } from 'path'
+import { findConfigFile, loadConfig } from './config.js'
+import { assertKnownRules } from './rule-engine.js'
+import { getCliVersion } from './package-info.js'
+import { getProfilesFile, hasLoosePermissions, resolveProfile, type ResolvedProfile } from './profiles.js'
+import { createReferenceResolver } from './reference-resolver.js'
+import {
+  createServerClient,
+  SUPPORTED_SERVER_MAJOR_VERSION,
+  toServerClientOptions,
+  type ServerClientOptions,
+  type ServerCommandOptions
+} from './server-client.js'
+import { SETTINGS_FILE_NAME } from './stencil-settings.js'
+import { DEFAULT_CACHE_DIR } from './validation-cache.js'
+import { discoverStencils } from './workspace.js'
+
+export interface EnvironmentCheck {
+  name: string
+  status: 'pass' | 'warn' | 'fail'
+  message: string
+  details?: string
+}
+
+export interface DoctorResult extends EnvironmentCheck {
+  // Id of the check that reported the result
+  check: string
+}
+
+export interface DoctorContext {
+  // Directory the checks look at (config discovery, workspace, cache)
+  cwd: string
+  options: Pick<ServerCommandOptions, 'profile' | 'serverUrl'> & {
+    // Validation cache directory, relative to cwd (default: .promarker-cache)
+    cacheLocation?: string
+  }
+  env: Record<string, string | undefined>
+}
+
+/**
+ * A doctor check. Checks push one or more results; a check that throws is
+ * reported as failed, so one broken check does not hide the others.
+ */
+export interface DoctorCheck {
+  /** Stable id, shown in the JSON output (e.g. `server`) */
+  id: string
+  run(context: DoctorContext, checks: EnvironmentCheck[]): Promise<void>
+}
+
+// Requests made by doctor must not keep a health check waiting
+const SERVER_CHECK_OPTIONS: Pick<ServerClientOptions, 'timeout' | 'retries'> = { timeout: 3000, retries: 0 }
+
+// Directory levels searched for stencils when the current directory is not a workspace
+const WORKSPACE_SEARCH_DEPTH = 3
+
+export const DOCTOR_CHECKS: DoctorCheck[] = [
+  { id: 'node', run: checkNodeVersion },
+  { id: 'cli', run: checkCliInstallation },
+  { id: 'config', run: checkConfigFile },
+  { id: 'workspace', run: checkWorkspace },
+  { id: 'permissions', run: checkFilePermissions },
+  { id: 'cache', run: checkCacheDirectory },
+  { id: 'profile', run: checkProfile },
+  { id: 'server', run: checkServer }
+]
+
+/**
+ * Runs the given checks one after another and returns their results in order.
+ */
+export async function runDoctorChecks(context: DoctorContext, doctorChecks: DoctorCheck[] = DOCTOR_CHECKS): Promise<DoctorResult[]> {
+  const results: DoctorResult[] = []
+
+  for (const doctorCheck of doctorChecks) {
+    const checks: EnvironmentCheck[] = []
+    try {
+      await doctorCheck.run(context, checks)
+    } catch (error) {
+      checks.push({
+        name: doctorCheck.id,
+        status: 'fail',
+        message: 'Check could not be completed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+    results.push(...checks.map(check => ({ check: doctorCheck.id, ...check })))
+  }
+
+  return results
+}
+
+async function checkNodeVersion(_context: DoctorContext, checks: EnvironmentCheck[]) {
+  const nodeVersion = process.version
+  const majorVersion = parseInt(nodeVersion.slice(1).split('.')[0])
+
+  if (majorVersion >= 18) {
+    checks.push({
+      name: 'Node.js Version',
+      status: 'pass',
+      message: `Node.js ${nodeVersion} (compatible)`,
+      details: 'Minimum required: Node.js 18+'
+    })
+  } else {
+    checks.push({
+      name: 'Node.js Version',
+      status: 'fail',
+      message: `Node.js ${nodeVersion} (incompatible)`,
+      details: 'Please upgrade to Node.js 18 or higher'
+    })
+  }
+}
+
+async function checkCliInstallation(context: DoctorContext, checks: EnvironmentCheck[]) {
+  const version = getCliVersion()
+  if (version === '0.0.0') {
+    checks.push({
+      name: 'CLI Installation',
+      status: 'warn',
+      message: 'Could not determine CLI version',
+      details: 'CLI appears to be functional but package.json was not found'
+    })
+  } else {
+    checks.push({
+      name: 'CLI Installation',
+      status: 'pass',
+      message: `ProMarker CLI v${version} installed correctly`
+    })
+  }
+
+  // Searched in-process, since minimal images often lack `which`
+  const command = findOnPath('promarker', context.env)
+  if (command) {
+    checks.push({
+      name: 'Command Availability',
+      status: 'pass',
+      message: 'promarker command is available in PATH',
+      details: `Location: ${command}`
+    })
+  } else {
+    checks.push({
+      name: 'Command Availability',
+      status: 'warn',
+      message: 'promarker command not found in PATH',
+      details: 'You may need to run "npm link" or install globally'
+    })
+  }
+}
+
+function findOnPath(command: string, env: Record<string, string | undefined>): string | undefined {
+  const extensions = process.platform === 'win32' ? (env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : ['']
+
+  for (const dir of (env.PATH ?? '').split(delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = join(dir, `${command}${extension}`)
+      try {
+        accessSync(candidate, constants.X_OK)
+        if (statSync(candidate).isFile()) return candidate
+      } catch {
+        // Not here; keep looking
+      }
+    }
+  }
+  return undefined
+}
+
+async function checkConfigFile(context: DoctorContext, checks: EnvironmentCheck[]) {
+  const configFile = findConfigFile(context.cwd)
+  if (!configFile) {
+    checks.push({
+      name: 'Config File',
+      status: 'pass',
+      message: 'No promarker.config found (using built-in rule defaults)',
+      details: `Searched ${context.cwd} and its parent directories`
+    })
+    return
+  }
+
+  try {
+    const config = await loadConfig(configFile)
+    assertKnownRules(config)
+    checks.push({
+      name: 'Config File',
+      status: 'pass',
+      message: `Using ${relative(context.cwd, configFile) || configFile}`,
+      details: `${Object.keys(config.rules).length} rule settings, ${config.plugins.length} plugins, ${config.helpers?.length ?? 0} helpers`
+    })
+  } catch (error) {
+    checks.push({
+      name: 'Config File',
+      status: 'fail',
+      message: `Invalid config file: ${relative(context.cwd, configFile) || configFile}`,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+async function checkWorkspace(context: DoctorContext, checks: EnvironmentCheck[]) {
+  // Outside a workspace (e.g. a container health check run from /) only the
+  // usual <group>/<type>/<stencil> levels are searched, not the whole tree
+  const inWorkspace = existsSync(join(context.cwd, SETTINGS_FILE_NAME)) || findConfigFile(context.cwd) !== undefined
+  const stencilDirs = await discoverStencils(context.cwd, inWorkspace ? undefined : WORKSPACE_SEARCH_DEPTH)
+  if (stencilDirs.length === 0) {
+    checks.push({
+      name: 'Stencil Workspace',
+      status: 'warn',
+      message: `No ${SETTINGS_FILE_NAME} found in or below the current directory`,
+      details: inWorkspace
+        ? 'Navigate to a stencil workspace or create a stencil with "promarker init"'
+        : `Searched ${WORKSPACE_SEARCH_DEPTH} directory levels; add a promarker.config file to search the whole workspace`
+    })
+    return
+  }
+
+  checks.push({
+    name: 'Stencil Workspace',
+    status: 'pass',
+    message: stencilDirs.length === 1 && stencilDirs[0] === context.cwd
+      ? `${SETTINGS_FILE_NAME} found in current directory`
+      : `${stencilDirs.length} stencils found`
+  })
+
+  const resolver = createReferenceResolver(context.cwd)
+  const invalid: string[] = []
+  const withoutFiles: string[] = []
+  for (const dir of stencilDirs) {
+    const stencil = await resolver.load(dir)
+    const name = relative(context.cwd, dir) || '.'
+    if (stencil.error) invalid.push(name)
+    // Stencils either list their files or keep them in files/
+    if (!Array.isArray(stencil.settings?.files) && !existsSync(join(dir, 'files'))) withoutFiles.push(name)
+  }
+
+  if (invalid.length > 0) {
+    checks.push({
+      name: 'Stencil Settings',
+      status: 'warn',
+      message: `${invalid.length} stencils have an invalid ${SETTINGS_FILE_NAME}`,
+      details: `Run "promarker validate" on: ${invalid.join(', ')}`
+    })
+  }
+  if (withoutFiles.length > 0) {
+    checks.push({
+      name: 'Files Directory',
+      status: 'warn',
+      message: `${withoutFiles.length} stencils have no files/ directory and no files list`,
+      details: withoutFiles.join(', ')
+    })
+  }
+}
+
+async function checkFilePermissions(context: DoctorContext, checks: EnvironmentCheck[]) {
+  try {
+    await access(context.cwd, constants.R_OK)
+    checks.push({
+      name: 'File Permissions',
+      status: 'pass',
+      message: 'Read access to current directory confirmed',
+      details: 'CLI can read stencil files'
+    })
+  } catch {
+    checks.push({
+      name: 'File Permissions',
+      status: 'fail',
+      message: 'Cannot read current directory',
+      details: 'Check file permissions for the current directory'
+    })
+  }
+}
+
+async function checkCacheDirectory(context: DoctorContext, checks: EnvironmentCheck[]) {
+  const cacheDir = resolve(context.cwd, context.options.cacheLocation ?? DEFAULT_CACHE_DIR)
+  if (existsSync(cacheDir) && !statSync(cacheDir).isDirectory()) {
+    checks.push({
+      name: 'Cache Directory',
+      status: 'warn',
+      message: 'Cache location is not a directory',
+      details: `${cacheDir} (used by "promarker validate --cache")`
+    })
+    return
+  }
+
+  // A missing cache directory is created by the first cached run
+  let dir = cacheDir
+  while (!existsSync(dir) && dirname(dir) !== dir) dir = dirname(dir)
+
+  try {
+    await access(dir, constants.W_OK)
+    checks.push({
+      name: 'Cache Directory',
+      status: 'pass',
+      message: existsSync(cacheDir) ? 'Cache directory is writable' : 'Cache directory can be created',
+      details: cacheDir
+    })
+  } catch {
+    checks.push({
+      name: 'Cache Directory',
+      status: 'warn',
+      message: 'Cache directory is not writable',
+      details: `"promarker validate --cache" will fail; choose another directory with --cache-location (${cacheDir})`
+    })
+  }
+}
+
+async function checkProfile(context: DoctorContext, checks: EnvironmentCheck[]) {
+  const { options, env } = context
+  let profile: ResolvedProfile
+  try {
+    profile = resolveProfile(options, env)
+  } catch (error) {
+    checks.push({
+      name: 'Active Profile',
+      status: 'fail',
+      message: 'Could not load the active profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return
+  }
+
+  const profilesFile = getProfilesFile(env)
+  if (hasLoosePermissions(profilesFile)) {
+    checks.push({
+      name: 'Credentials File',
+      status: 'warn',
+      message: 'Profiles file is accessible by other users',
+      details: `Run: chmod 600 ${profilesFile}`
+    })
+  }
+
+  if (!profile.token) {
+    checks.push({
+      name: 'Active Profile',
+      status: 'warn',
+      message: `Profile "${profile.name}" is not logged in`,
+      details: 'Run "promarker login" or set PROMARKER_TOKEN'
+    })
+    return
+  }
+
+  const client = createServerClient({ ...toServerClientOptions(options, env), ...SERVER_CHECK_OPTIONS })
+  checks.push({
+    name: 'Active Profile',
+    status: 'pass',
+    message: `Profile "${profile.name}" (${client.baseUrl})`,
+    details: `Token from ${profile.tokenSource === 'env' ? 'PROMARKER_TOKEN' : profilesFile}`
+  })
+
+  try {
+    const identity = await client.whoami()
+    if (identity) {
+      checks.push({
+        name: 'Authentication',
+        status: 'pass',
+        message: `Token is valid (logged in as ${identity.user.name})`
+      })
+    } else {
+      checks.push({
+        name: 'Authentication',
+        status: 'fail',
+        message: 'Token was rejected by the server',
+        details: `Run "promarker login --profile ${profile.name}" to log in again`
+      })
+    }
+  } catch (error) {
+    checks.push({
+      name: 'Authentication',
+      status: 'warn',
+      message: 'Could not verify the token',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+async function checkServer(context: DoctorContext, checks: EnvironmentCheck[]) {
+  let clientOptions: ServerClientOptions
+  try {
+    clientOptions = toServerClientOptions(context.options, context.env)
+  } catch {
+    // An unusable profile is reported by the profile check
+    return
+  }
+
+  const client = createServerClient({ ...clientOptions, ...SERVER_CHECK_OPTIONS })
+  let version: string | undefined
+  try {
+    const status = await client.status()
+    version = status.version
+    checks.push({
+      name: 'ProMarker Server',
+      status: 'pass',
+      message: `Reachable at ${client.baseUrl} (${status.status})`,
+      details: status.name
+    })
+  } catch (error) {
+    // Validation works offline; only generate and --remote need the server
+    checks.push({
+      name: 'ProMarker Server',
+      status: 'warn',
+      message: `Not reachable at ${client.baseUrl}`,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return
+  }
+
+  const major = version ? parseInt(version, 10) : NaN
+  if (Number.isNaN(major)) {
+    checks.push({
+      name: 'Server Version',
+      status: 'warn',
+      message: version ? `Unrecognized server version: ${version}` : 'Server did not report its version',
+      details: `This CLI supports ProMarker server ${SUPPORTED_SERVER_MAJOR_VERSION}.x`
+    })
+  } else if (major !== SUPPORTED_SERVER_MAJOR_VERSION) {
+    checks.push({
+      name: 'Server Version',
+      status: 'fail',
+      message: `Server version ${version} is not supported`,
+      details: `This CLI supports ProMarker server ${SUPPORTED_SERVER_MAJOR_VERSION}.x`
+    })
+  } else {
+    checks.push({
+      name: 'Server Version',
+      status: 'pass',
+      message: `Server version ${version} is compatible`
+    })
+  }
+}
@@ -0,0 +1,56 @@
+import { execFileSync } from 'child_process'
+import { realpathSync } from 'fs'
+import { relative, resolve, sep } from 'path'
+import { extractArchive, readArchive } from './archive.js'
+
+/**
+ * Lists the files changed since a git ref as absolute paths: committed,
+ * staged and unstaged changes (deleted files included) plus untracked files.
+ */
+export function listChangedFiles(ref: string, cwd: string): string[] {
+  checkRef(ref)
+
+  const topLevel = git(['rev-parse', '--show-toplevel'], cwd).toString().trim()
+  // -z keeps unusual file names unquoted; paths are relative to the top level
+  const changed = git(['diff', '--name-only', '-z', ref, '--'], topLevel).toString()
+  const untracked = git(['ls-files', '--others', '--exclude-standard', '-z'], topLevel).toString()
+
+  const paths = [...changed.split('\0'), ...untracked.split('\0')].filter(Boolean)
+  return [...new Set(paths)].map(path => resolve(topLevel, path))
+}
+
+/**
+ * Writes the committed content of a directory as of a git ref into
+ * targetDir. The directory is given by its path in the working tree.
+ */
+export function exportDirectoryAtRef(ref: string, dir: string, targetDir: string) {
+  checkRef(ref)
+
+  const topLevel = git(['rev-parse', '--show-toplevel'], dir).toString().trim()
+  const path = relative(topLevel, realpathSync(dir)).split(sep).join('/')
+  const prefix = path ? `${path}/` : ''
+
+  // Symlinks are exported as files holding their target, like git stores them
+  const entries = readArchive(git(['archive', '--format=tar', ref, '--', path || '.'], topLevel), { symlinksAsFiles: true })
+    .filter(entry => entry.path.startsWith(prefix))
+    .map(entry => ({ ...entry, path: entry.path.slice(prefix.length) }))
+  if (entries.length === 0) {
+    throw new Error(`${path || '.'} has no files at ${ref}`)
+  }
+  extractArchive(entries, targetDir)
+}
+
+function checkRef(ref: string) {
+  if (!ref || ref.startsWith('-')) {
+    throw new Error(`Invalid git ref: ${ref}`)
+  }
+}
+
+function git(args: string[], cwd: string): Buffer {
+  try {
+    return execFileSync('git', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 512 * 1024 * 1024 })
+  } catch (error) {
+    const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim().split('\n')[0]
+    throw new Error(`git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : error)}`)
+  }
+}
@@ -0,0 +1,49 @@
+import { existsSync, readFileSync } from 'fs'
+import { isAbsolute, join, relative, sep } from 'path'
+import ignore, { type Ignore } from 'ignore'
+
+export const IGNORE_FILE_NAME = '.promarkerignore'
+
+export interface IgnoreMatcher {
+  /** Returns true when the absolute path is excluded from validation */
+  ignores(path: string): boolean
+}
+
+interface IgnoreScope {
+  base: string
+  rules: Ignore
+}
+
+/**
+ * Builds a matcher from `--ignore` patterns and the .promarkerignore files of
+ * the given base directories (typically the workspace root and the stencil
+ * directory). All patterns use gitignore syntax and are relative to the
+ * directory they belong to; `--ignore` patterns are relative to the last base.
+ */
+export function createIgnoreMatcher(bases: string[], patterns: string[] = []): IgnoreMatcher {
+  const scopes: IgnoreScope[] = []
+
+  for (const base of new Set(bases)) {
+    const ignoreFile = join(base, IGNORE_FILE_NAME)
+    if (existsSync(ignoreFile)) {
+      scopes.push({ base, rules: ignore().add(readFileSync(ignoreFile, 'utf-8')) })
+    }
+  }
+
+  if (patterns.length > 0 && bases.length > 0) {
+    scopes.push({ base: bases[bases.length - 1], rules: ignore().add(patterns) })
+  }
+
+  return {
+    ignores(path: string) {
+      return scopes.some(scope => {
+        const relativePath = relative(scope.base, path)
+        // Paths outside the scope's directory are not covered by its rules
+        if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+          return false
+        }
+        return scope.rules.ignores(relativePath.split(sep).join('/'))
+      })
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { existsSync, lstatSync, realpathSync } from 'fs'
+import { isAbsolute, join, posix, relative, resolve, sep, win32 } from 'path'
+import { glob } from 'glob'
+import type { ValidationResult } from './types.js'
+
+// Templates under files/ render relative to the output directory
+const FILES_DIR = 'files/'
+const TEMPLATE_EXTENSION = '.hbs'
+
+/**
+ * Renders the placeholders of a path template. Simple placeholders with a
+ * value are replaced by it; the others are kept in a normalized form, so that
+ * two paths using the same placeholder still compare equal.
+ */
+export function renderPathTemplate(path: string, values: Record<string, unknown> = {}): string {
+  return path.replace(/\{\{\{?~?\s*([^}]*?)\s*~?\}?\}\}/g, (_match, expression: string) => {
+    const value = values[expression]
+    if (/^[\w$-]+$/.test(expression) && value !== undefined && value !== null) {
+      return String(value)
+    }
+    return `{{${expression.replace(/\s+/g, ' ')}}}`
+  })
+}
+
+/**
+ * Returns the output path of a stencil file: relative to files/ and without
+ * the .hbs extension of templates.
+ */
+export function toOutputPath(source: string, values?: Record<string, unknown>): string {
+  const withinFiles = source.startsWith(FILES_DIR) ? source.slice(FILES_DIR.length) : source
+  const output = withinFiles.endsWith(TEMPLATE_EXTENSION) ? withinFiles.slice(0, -TEMPLATE_EXTENSION.length) : withinFiles
+  return renderPathTemplate(output, values)
+}
+
+/**
+ * Lists the stencil files that end up in the output: everything under files/
+ * plus the existing `files` entries. Paths are stencil-relative.
+ */
+export async function listOutputSources(stencilDir: string, settings: Record<string, unknown>): Promise<string[]> {
+  const sources = new Set(await glob(`${FILES_DIR}**/*`, { cwd: stencilDir, nodir: true, posix: true }))
+
+  if (Array.isArray(settings.files)) {
+    settings.files.forEach((file: unknown) => {
+      if (typeof file === 'string' && !isUnsafePath(file) && existsSync(join(stencilDir, file))) {
+        sources.add(posix.normalize(file.replace(/\\/g, '/')))
+      }
+    })
+  }
+
+  return [...sources].sort()
+}
+
+/**
+ * Returns true for absolute paths and paths that leave their base directory.
+ */
+export function isUnsafePath(path: string): boolean {
+  if (posix.isAbsolute(path) || win32.isAbsolute(path)) return true
+
+  const normalized = posix.normalize(path.replace(/\\/g, '/'))
+  return normalized === '..' || normalized.startsWith('../')
+}
+
+/**
+ * Checks the rendered output paths of stencil files: every path must stay in
+ * the output directory, and no two files may render to the same path (or to
+ * paths that only differ in case, which collide on macOS and Windows).
+ */
+export function checkOutputPaths(stencilDir: string, sources: string[], values?: Record<string, unknown>): ValidationResult[] {
+  const results: ValidationResult[] = []
+  const byOutput = new Map<string, string[]>()
+
+  for (const source of sources) {
+    const output = toOutputPath(source, values)
+    if (isUnsafePath(output)) {
+      results.push({
+        path: resolve(stencilDir, source),
+        rule: 'files/unsafe-path',
+        type: 'error',
+        message: `Output path leaves the output directory: ${output}`,
+        details: `Rendered from ${source}`
+      })
+      continue
+    }
+
+    const key = posix.normalize(output.replace(/\\/g, '/'))
+    byOutput.set(key, [...(byOutput.get(key) ?? []), source])
+  }
+
+  const byFoldedOutput = new Map<string, string[]>()
+  for (const [output, outputSources] of byOutput) {
+    if (outputSources.length > 1) {
+      results.push({
+        path: resolve(stencilDir, outputSources[1]),
+        rule: 'files/output-collision',
+        type: 'error',
+        message: `Files render to the same output path: ${output}`,
+        details: `Rendered from ${outputSources.join(', ')}`
+      })
+    }
+
+    const folded = output.toLowerCase()
+    byFoldedOutput.set(folded, [...(byFoldedOutput.get(folded) ?? []), output])
+  }
+
+  for (const outputs of byFoldedOutput.values()) {
+    if (outputs.length < 2) continue
+    results.push({
+      path: resolve(stencilDir, byOutput.get(outputs[1])?.[0] ?? outputs[1]),
+      rule: 'files/case-collision',
+      type: 'warning',
+      message: `Output paths only differ in case: ${outputs.join(', ')}`,
+      details: 'These files overwrite each other on case-insensitive file systems'
+    })
+  }
+
+  return results
+}
+
+/**
+ * Returns the symlinks among the given paths that point outside the stencil
+ * directory (or nowhere), with their resolved targets.
+ */
+export function findExternalSymlinks(stencilDir: string, paths: string[]): { path: string; target?: string }[] {
+  const root = realpathSync(stencilDir)
+  const external: { path: string; target?: string }[] = []
+
+  for (const path of paths) {
+    if (!lstatSync(path).isSymbolicLink()) continue
+
+    let target: string | undefined
+    try {
+      target = realpathSync(path)
+    } catch {
+      // Dangling link
+    }
+
+    const fromRoot = target ? relative(root, target) : undefined
+    if (fromRoot === undefined || fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+      external.push({ path, target })
+    }
+  }
+
+  return external
+}
@@ -0,0 +1,21 @@
+import { createRequire } from 'module'
+
+const require = createRequire(import.meta.url)
+
+/**
+ * Returns the CLI version from package.json. The lookup covers both the
+ * bundled layout (dist/index.js) and running from source (src/lib/*.ts).
+ */
+export function getCliVersion(): string {
+  for (const candidate of ['../package.json', '../../package.json']) {
+    try {
+      const packageJson: { name?: string; version?: string } = require(candidate)
+      if (packageJson.name === '@promarker/cli' && packageJson.version) {
+        return packageJson.version
+      }
+    } catch {
+      // Try the next location
+    }
+  }
+  return '0.0.0'
+}
@@ -0,0 +1,146 @@
+import { createRequire } from 'module'
+import { dirname, isAbsolute, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { z } from 'zod'
+import type { SourceRange } from './source-location.js'
+import type { ValidationResult } from './types.js'
+
+/**
+ * A finding reported by a plugin rule. `path` defaults to the stencil's
+ * stencil-settings.yml and may be absolute or relative to the stencil.
+ */
+export interface PluginFinding {
+  message: string
+  details?: string
+  path?: string
+  location?: SourceRange
+}
+
+/**
+ * Everything a plugin rule gets to inspect a single stencil.
+ */
+export interface PluginRuleContext {
+  /** Absolute path of the stencil directory */
+  stencilDir: string
+  /** Absolute path of stencil-settings.yml */
+  settingsFile: string
+  /** Parsed stencil-settings.yml */
+  settings: Record<string, unknown>
+  /** Stencil files relative to the stencil directory, after ignore rules */
+  files: string[]
+  /** Source range of a key in stencil-settings.yml, e.g. `['metadata', 'owner']` */
+  locate(path: PropertyKey[]): SourceRange | undefined
+  /** Emits a finding for this rule */
+  report(finding: PluginFinding): void
+}
+
+export interface PluginRule {
+  /** Stable rule id, used in config and suppressions (e.g. `acme/require-owner`) */
+  id: string
+  description: string
+  /** Severity used when the config does not set one (default: `error`) */
+  defaultSeverity?: 'info' | 'warn' | 'error'
+  check(context: PluginRuleContext): void | Promise<void>
+}
+
+export interface PromarkerPlugin {
+  name: string
+  rules: PluginRule[]
+}
+
+const PluginSchema = z.object({
+  name: z.string().min(1, 'Plugin name is required'),
+  rules: z.array(
+    z.object({
+      id: z.string().min(1, 'Rule id is required'),
+      description: z.string(),
+      defaultSeverity: z.enum(['info', 'warn', 'error']).optional(),
+      check: z.custom<PluginRule['check']>(value => typeof value === 'function', 'check must be a function')
+    })
+  )
+})
+
+/**
+ * Identity helper that gives plugin authors type checking and completion.
+ */
+export function definePlugin(plugin: PromarkerPlugin): PromarkerPlugin {
+  return plugin
+}
+
+export interface LoadedPlugins {
+  plugins: PromarkerPlugin[]
+  // Absolute paths of the plugin modules that were imported
+  files: string[]
+}
+
+/**
+ * Loads plugins listed in a config file. Strings are module specifiers
+ * resolved from the config file's directory; objects are used as-is (for
+ * plugins defined inline in promarker.config.js).
+ */
+export async function loadPlugins(entries: unknown[], configFile: string): Promise<LoadedPlugins> {
+  const configDir = dirname(configFile)
+  const require = createRequire(configFile)
+  const plugins: PromarkerPlugin[] = []
+  const files: string[] = []
+
+  for (const entry of entries) {
+    let plugin: unknown = entry
+    if (typeof entry === 'string') {
+      try {
+        const specifier = entry.startsWith('.') || isAbsolute(entry) ? resolve(configDir, entry) : require.resolve(entry)
+        const module = await import(pathToFileURL(specifier).href)
+        plugin = module.default ?? module
+        files.push(specifier)
+      } catch (error) {
+        throw new Error(`Failed to load plugin ${entry}: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    const validation = PluginSchema.safeParse(plugin)
+    if (!validation.success) {
+      const issues = validation.error.issues.map(issue => `${issue.path.join('.')} - ${issue.message}`).join('; ')
+      throw new Error(`Invalid plugin ${typeof entry === 'string' ? entry : '(inline)'}: ${issues}`)
+    }
+    plugins.push(plugin as PromarkerPlugin)
+  }
+
+  return { plugins, files }
+}
+
+/**
+ * Runs every plugin rule against a stencil. A rule that throws is reported
+ * as a `plugins/rule-error` result instead of aborting the validation.
+ */
+export async function runPluginRules(
+  plugins: PromarkerPlugin[],
+  context: Omit<PluginRuleContext, 'report'>,
+  results: ValidationResult[]
+) {
+  for (const plugin of plugins) {
+    for (const rule of plugin.rules) {
+      const report = (finding: PluginFinding) => {
+        results.push({
+          path: finding.path ? resolve(context.stencilDir, finding.path) : context.settingsFile,
+          rule: rule.id,
+          type: rule.defaultSeverity === 'warn' ? 'warning' : rule.defaultSeverity ?? 'error',
+          message: finding.message,
+          details: finding.details,
+          location: finding.location
+        })
+      }
+
+      try {
+        await rule.check({ ...context, report })
+      } catch (error) {
+        results.push({
+          path: context.settingsFile,
+          rule: 'plugins/rule-error',
+          type: 'error',
+          message: `Plugin rule ${rule.id} (${plugin.name}) failed`,
+          details: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+  }
+}
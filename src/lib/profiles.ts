@@ -0,0 +1,139 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join } from 'path'
+import { URL } from 'url'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { z } from 'zod'
+
+export const DEFAULT_PROFILE = 'default'
+export const PROFILES_FILE_NAME = 'profiles.yml'
+
+type Env = Record<string, string | undefined>
+
+export const ProfileSchema = z.object({
+  url: z.string().optional(),
+  token: z.string().optional(),
+  // Display name of the logged in user, as reported by the server
+  user: z.string().optional()
+})
+
+export type Profile = z.infer<typeof ProfileSchema>
+
+export const ProfilesFileSchema = z.object({
+  profiles: z.record(z.string(), ProfileSchema).default({})
+})
+
+export type ProfilesFile = z.infer<typeof ProfilesFileSchema>
+
+export interface ResolvedProfile {
+  name: string
+  url?: string
+  token?: string
+  user?: string
+  // Where the url and token came from, for doctor and whoami
+  urlSource?: 'option' | 'env' | 'profile'
+  tokenSource?: 'env' | 'profile'
+}
+
+/**
+ * Returns the profiles file below the XDG config directory
+ * (`$XDG_CONFIG_HOME/promarker/profiles.yml`, default `~/.config`).
+ */
+export function getProfilesFile(env: Env = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(configHome, 'promarker', PROFILES_FILE_NAME)
+}
+
+export function loadProfiles(file: string): ProfilesFile {
+  if (!existsSync(file)) return { profiles: {} }
+
+  let raw: unknown
+  try {
+    raw = parseYaml(readFileSync(file, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Failed to read profiles file ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const validation = ProfilesFileSchema.safeParse(raw ?? {})
+  if (!validation.success) {
+    const issues = validation.error.issues.map(issue => `${issue.path.join('.')} - ${issue.message}`).join('; ')
+    throw new Error(`Invalid profiles file ${file}: ${issues}`)
+  }
+  return validation.data
+}
+
+/**
+ * Writes the profiles file readable by the current user only, since it
+ * holds access tokens.
+ */
+export function saveProfiles(file: string, data: ProfilesFile) {
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 })
+  writeFileSync(file, stringifyYaml(data), { mode: 0o600 })
+  // The mode option only applies when the file is created
+  chmodSync(file, 0o600)
+}
+
+/**
+ * Returns true when group or others can access the profiles file.
+ */
+export function hasLoosePermissions(file: string): boolean {
+  return process.platform !== 'win32' && existsSync(file) && (statSync(file).mode & 0o077) !== 0
+}
+
+/**
+ * Works out the active profile. `--profile` wins over `PROMARKER_PROFILE`;
+ * `--server-url`, `PROMARKER_URL` and `PROMARKER_TOKEN` override the values
+ * stored in the profile so that CI can run without a profiles file. A stored
+ * token is only sent to the server it was stored for.
+ */
+export function resolveProfile(options: { profile?: string; serverUrl?: string }, env: Env = process.env): ResolvedProfile {
+  const name = options.profile || env.PROMARKER_PROFILE || DEFAULT_PROFILE
+  const stored = loadProfiles(getProfilesFile(env)).profiles[name]
+  if (options.profile && !stored && !env.PROMARKER_TOKEN) {
+    throw new Error(`Unknown profile: ${name} (run "promarker login --profile ${name}")`)
+  }
+
+  const resolved: ResolvedProfile = { name, user: stored?.user }
+
+  if (options.serverUrl) {
+    resolved.url = options.serverUrl
+    resolved.urlSource = 'option'
+  } else if (env.PROMARKER_URL) {
+    resolved.url = env.PROMARKER_URL
+    resolved.urlSource = 'env'
+  } else if (stored?.url) {
+    resolved.url = stored.url
+    resolved.urlSource = 'profile'
+  }
+
+  if (env.PROMARKER_TOKEN) {
+    resolved.token = env.PROMARKER_TOKEN
+    resolved.tokenSource = 'env'
+  } else if (stored?.token) {
+    const overridden = resolved.urlSource === 'option' || resolved.urlSource === 'env'
+    if (overridden && !(stored.url && isSameServer(stored.url, resolved.url!))) {
+      const override = resolved.urlSource === 'option' ? '--server-url' : 'PROMARKER_URL'
+      throw new Error(
+        `The token of profile ${name} is for ${stored.url ?? 'the profile server'}, not ${resolved.url} (from ${override}). ` +
+        `Set PROMARKER_TOKEN or run "promarker login --profile ${name} --server-url ${resolved.url}"`
+      )
+    }
+    resolved.token = stored.token
+    resolved.tokenSource = 'profile'
+  }
+
+  return resolved
+}
+
+// Compares server URLs ignoring letter case in the host and trailing slashes
+function isSameServer(a: string, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url)
+      return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`
+    } catch {
+      return url.replace(/\/+$/, '')
+    }
+  }
+  return normalize(a) === normalize(b)
+}
@@ -0,0 +1,203 @@
+import { existsSync, readFileSync } from 'fs'
+import { join, relative, resolve } from 'path'
+import { glob } from 'glob'
+import { parse as parseYaml } from 'yaml'
+import { parseStencilSettings, SETTINGS_FILE_NAME } from './stencil-settings.js'
+
+export type ReferenceKind = 'extend' | 'include'
+
+export interface ResolvedStencil {
+  dir: string
+  settingsFile: string
+  id?: string
+  settings: Record<string, unknown> | null
+  error?: string
+}
+
+export interface StencilReference {
+  kind: ReferenceKind
+  from: ResolvedStencil
+  ref: string
+  target: ResolvedStencil | null
+}
+
+export interface ReferenceGraph {
+  root: ResolvedStencil
+  references: StencilReference[]
+  extendChain: ResolvedStencil[]
+  cycles: ResolvedStencil[][]
+}
+
+export interface ReferenceResolver {
+  stencilRoot: string
+  load(dir: string): Promise<ResolvedStencil>
+  resolve(ref: string, fromDir: string): Promise<ResolvedStencil | null>
+}
+
+/**
+ * Creates a resolver that looks up stencils either by path (relative to the
+ * referencing stencil when the reference starts with `.`, otherwise relative
+ * to the stencil root) or by id among all stencils found under the root.
+ */
+export function createReferenceResolver(stencilRoot: string): ReferenceResolver {
+  const cache = new Map<string, Promise<ResolvedStencil>>()
+  let idIndex: Promise<Map<string, string>> | null = null
+
+  const load = (dir: string): Promise<ResolvedStencil> => {
+    const key = resolve(dir)
+    let stencil = cache.get(key)
+    if (!stencil) {
+      stencil = readStencil(key)
+      cache.set(key, stencil)
+    }
+    return stencil
+  }
+
+  const lookupId = async (id: string): Promise<string | undefined> => {
+    if (!idIndex) idIndex = buildIdIndex(stencilRoot, load)
+    return (await idIndex).get(id)
+  }
+
+  const resolveRef = async (ref: string, fromDir: string): Promise<ResolvedStencil | null> => {
+    const isRelative = ref.startsWith('./') || ref.startsWith('../')
+    const candidate = isRelative
+      ? resolve(fromDir, ref)
+      : join(stencilRoot, ref.replace(/^\/+/, ''))
+
+    if (existsSync(join(candidate, SETTINGS_FILE_NAME))) {
+      return load(candidate)
+    }
+    if (isRelative) return null
+
+    const dir = await lookupId(ref)
+    return dir ? load(dir) : null
+  }
+
+  return { stencilRoot, load, resolve: resolveRef }
+}
+
+/**
+ * Walks every extend/include reference reachable from the given stencil and
+ * records unresolved references, cycles and the extend chain.
+ */
+export async function resolveReferenceGraph(resolver: ReferenceResolver, dir: string): Promise<ReferenceGraph> {
+  const root = await resolver.load(dir)
+  const references: StencilReference[] = []
+  const cycles: ResolvedStencil[][] = []
+  const visited = new Set<string>()
+  const stack: ResolvedStencil[] = []
+
+  const visit = async (stencil: ResolvedStencil) => {
+    visited.add(stencil.dir)
+    stack.push(stencil)
+
+    for (const { kind, ref } of getReferences(stencil.settings)) {
+      const target = await resolver.resolve(ref, stencil.dir)
+      references.push({ kind, from: stencil, ref, target })
+      if (!target) continue
+
+      const index = stack.findIndex(s => s.dir === target.dir)
+      if (index !== -1) {
+        cycles.push([...stack.slice(index), target])
+      } else if (!visited.has(target.dir)) {
+        await visit(target)
+      }
+    }
+
+    stack.pop()
+  }
+
+  await visit(root)
+
+  // Follow extend links only; stop at the first repeated stencil
+  const extendChain: ResolvedStencil[] = [root]
+  let current = root
+  while (typeof current.settings?.extend === 'string') {
+    const next = await resolver.resolve(current.settings.extend, current.dir)
+    if (!next || extendChain.some(s => s.dir === next.dir)) break
+    extendChain.push(next)
+    current = next
+  }
+
+  return { root, references, extendChain, cycles }
+}
+
+export function describeStencil(stencil: ResolvedStencil, stencilRoot: string): string {
+  return stencil.id ?? (relative(stencilRoot, stencil.dir) || '.')
+}
+
+/**
+ * Lists the extend/include references declared in stencil settings, extend first.
+ */
+export function getReferences(settings: Record<string, unknown> | null): { kind: ReferenceKind; ref: string }[] {
+  if (!settings) return []
+
+  const references: { kind: ReferenceKind; ref: string }[] = []
+  if (typeof settings.extend === 'string' && settings.extend) {
+    references.push({ kind: 'extend', ref: settings.extend })
+  }
+  if (Array.isArray(settings.include)) {
+    settings.include.forEach((include: unknown) => {
+      if (typeof include === 'string' && include) {
+        references.push({ kind: 'include', ref: include })
+      }
+    })
+  }
+  return references
+}
+
+async function readStencil(dir: string): Promise<ResolvedStencil> {
+  const settingsFile = join(dir, SETTINGS_FILE_NAME)
+  const stencil: ResolvedStencil = { dir, settingsFile, settings: null }
+
+  if (!existsSync(settingsFile)) {
+    stencil.error = `${SETTINGS_FILE_NAME} not found`
+    return stencil
+  }
+
+  let parsed: unknown
+  try {
+    parsed = parseYaml(readFileSync(settingsFile, 'utf-8'))
+  } catch (error) {
+    stencil.error = `Invalid YAML format: ${error instanceof Error ? error.message : 'Unknown YAML parsing error'}`
+    return stencil
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    stencil.error = 'Stencil settings must be a YAML mapping'
+    return stencil
+  }
+
+  stencil.settings = parsed as Record<string, unknown>
+  if (typeof stencil.settings.id === 'string') {
+    stencil.id = stencil.settings.id
+  }
+
+  const validation = parseStencilSettings(parsed)
+  if (!validation.success) {
+    stencil.error = validation.issues
+      .map(issue => `${issue.path.join('.')} - ${issue.message}`)
+      .join('; ')
+  }
+  return stencil
+}
+
+async function buildIdIndex(
+  stencilRoot: string,
+  load: (dir: string) => Promise<ResolvedStencil>
+): Promise<Map<string, string>> {
+  const index = new Map<string, string>()
+  const settingsFiles = await glob(`**/${SETTINGS_FILE_NAME}`, {
+    cwd: stencilRoot,
+    ignore: ['**/node_modules/**'],
+    absolute: true
+  })
+
+  for (const settingsFile of settingsFiles.sort()) {
+    const stencil = await load(resolve(settingsFile, '..'))
+    if (stencil.id && !index.has(stencil.id)) {
+      index.set(stencil.id, stencil.dir)
+    }
+  }
+  return index
+}
@@ -0,0 +1,134 @@
+import { relative, sep } from 'path'
+import { describeRule } from './rules.js'
+import { formatPosition } from './source-location.js'
+import type { ValidationResult, ValidationSummary } from './types.js'
+
+export interface SarifContext {
+  toolVersion: string
+  // Artifact URIs are written relative to this directory
+  baseDir: string
+}
+
+export interface JUnitContext {
+  baseDir: string
+  failOn: string
+}
+
+const SARIF_LEVELS: Record<ValidationResult['type'], string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+}
+
+/**
+ * Formats validation summaries as a SARIF 2.1.0 log. Informational results
+ * are left out so that code scanning only shows actionable findings.
+ */
+export function formatSarif(summaries: ValidationSummary[], context: SarifContext): string {
+  const findings = summaries.flatMap(summary => [...summary.errors, ...summary.warnings])
+  const ruleIds = [...new Set(findings.map(result => result.rule))].sort()
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'promarker',
+            version: context.toolVersion,
+            informationUri: 'https://promarker.jp',
+            rules: ruleIds.map(id => ({
+              id,
+              shortDescription: { text: describeRule(id) }
+            }))
+          }
+        },
+        results: findings.map(result => ({
+          ruleId: result.rule,
+          ruleIndex: ruleIds.indexOf(result.rule),
+          level: SARIF_LEVELS[result.type],
+          message: { text: result.details ? `${result.message}\n${result.details}` : result.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: toUri(result.path, context.baseDir) },
+                ...(result.location && {
+                  region: {
+                    startLine: result.location.start.line,
+                    startColumn: result.location.start.column,
+                    endLine: result.location.end.line,
+                    endColumn: result.location.end.column
+                  }
+                })
+              }
+            }
+          ]
+        }))
+      }
+    ]
+  }
+
+  return JSON.stringify(log, null, 2)
+}
+
+/**
+ * Formats validation summaries as JUnit XML with one test suite per stencil
+ * and one test case per finding. Warnings only count as failures when the
+ * exit code threshold is `warn`.
+ */
+export function formatJUnit(summaries: ValidationSummary[], context: JUnitContext): string {
+  const suites = summaries.map(summary => {
+    const stencilName = toUri(summary.path, context.baseDir)
+    const findings = [...summary.errors, ...summary.warnings]
+    const failures = findings.filter(result => result.type === 'error' || context.failOn === 'warn')
+
+    const testcases = findings.map(result => {
+      const attributes = `classname="${escapeXml(toUri(result.path, context.baseDir))}" name="${escapeXml(`${result.rule}: ${result.message}`)}"`
+      const body = [result.message, result.details, `Location: ${result.path}${formatPosition(result.location)}`]
+        .filter(Boolean)
+        .join('\n')
+
+      if (failures.includes(result)) {
+        return `    <testcase ${attributes}>\n      <failure type="${result.type}" message="${escapeXml(result.message)}">${escapeXml(body)}</failure>\n    </testcase>`
+      }
+      return `    <testcase ${attributes}>\n      <system-out>${escapeXml(`${result.type}: ${body}`)}</system-out>\n    </testcase>`
+    })
+
+    if (testcases.length === 0) {
+      testcases.push(`    <testcase classname="${escapeXml(stencilName)}" name="stencil validation"/>`)
+    }
+
+    return [
+      `  <testsuite name="${escapeXml(stencilName)}" tests="${testcases.length}" failures="${failures.length}" errors="0" skipped="0" timestamp="${summary.validatedAt}">`,
+      ...testcases,
+      '  </testsuite>'
+    ].join('\n')
+  })
+
+  const tests = summaries.reduce((sum, summary) => sum + Math.max(1, summary.errors.length + summary.warnings.length), 0)
+  const failures = summaries.reduce(
+    (sum, summary) => sum + summary.errors.length + (context.failOn === 'warn' ? summary.warnings.length : 0),
+    0
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="promarker validate" tests="${tests}" failures="${failures}" errors="0">`,
+    ...suites,
+    '</testsuites>'
+  ].join('\n')
+}
+
+function toUri(path: string, baseDir: string): string {
+  return (relative(baseDir, path) || '.').split(sep).join('/')
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,140 @@
+import type { PromarkerConfig, RuleSeverity } from './config.js'
+import { RULES, type RuleMeta } from './rules.js'
+import type { ValidationResult } from './types.js'
+
+export interface RuleContext {
+  config: PromarkerConfig
+  strict?: boolean
+}
+
+interface Suppression {
+  // Undefined means every rule is suppressed
+  rules?: string[]
+  fromLine: number
+  toLine: number
+}
+
+const RESULT_TYPES: Record<Exclude<RuleSeverity, 'off'>, ValidationResult['type']> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info'
+}
+
+const DIRECTIVE_PATTERN = /#\s*promarker-(disable-next-line|disable-line|disable|enable)\b(.*)$/
+
+/**
+ * Returns the effective severity of a rule: the config wins, then --strict
+ * for strict rules, then the rule's default. Rules that are not known locally
+ * (findings of the ProMarker server) keep the severity they were reported with.
+ */
+export function resolveSeverity(ruleId: string, context: RuleContext, reported?: ValidationResult['type']): RuleSeverity {
+  const configured = context.config.rules[ruleId]
+  if (configured) return configured
+
+  const rule = getRuleMeta(ruleId, context.config)
+  if (!rule) return reported === 'warning' ? 'warn' : reported ?? 'error'
+  if (rule.strict && !context.strict) return 'off'
+  return rule.defaultSeverity
+}
+
+/**
+ * Looks a rule up among the built-in rules and the rules of loaded plugins.
+ */
+export function getRuleMeta(ruleId: string, config: PromarkerConfig): RuleMeta | undefined {
+  if (RULES[ruleId]) return RULES[ruleId]
+
+  const rule = config.plugins.flatMap(plugin => plugin.rules).find(r => r.id === ruleId)
+  return rule && { description: rule.description, defaultSeverity: rule.defaultSeverity ?? 'error' }
+}
+
+/**
+ * Throws when the config refers to rules that do not exist, so that typos in
+ * rule ids do not silently leave a rule at its default severity. `server/`
+ * rules are defined by the ProMarker server and cannot be checked locally.
+ */
+export function assertKnownRules(config: PromarkerConfig) {
+  const unknown = Object.keys(config.rules).filter(ruleId => !ruleId.startsWith('server/') && !getRuleMeta(ruleId, config))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown rule${unknown.length > 1 ? 's' : ''} in ${config.path}: ${unknown.join(', ')}`)
+  }
+}
+
+/**
+ * Applies configured severities and inline suppressions to raw results.
+ * Results of rules that are turned off or suppressed are dropped.
+ */
+export function applyRules(
+  results: ValidationResult[],
+  context: RuleContext,
+  settingsFile: string,
+  settingsContent?: string
+): ValidationResult[] {
+  const suppressions = settingsContent ? parseSuppressions(settingsContent) : []
+
+  return results.flatMap(result => {
+    const severity = resolveSeverity(result.rule, context, result.type)
+    if (severity === 'off') return []
+
+    // Results in stencil-settings.yml without a location count as line 1
+    if (result.path === settingsFile && isSuppressed(result.rule, result.location?.start.line ?? 1, suppressions)) {
+      return []
+    }
+
+    return [{ ...result, type: RESULT_TYPES[severity] }]
+  })
+}
+
+/**
+ * Reads `# promarker-disable-next-line`, `# promarker-disable-line` and
+ * `# promarker-disable` / `# promarker-enable` comments. Rule ids are
+ * separated by commas or spaces; without rule ids every rule is suppressed.
+ * Text after `--` is treated as a reason and ignored.
+ */
+export function parseSuppressions(content: string): Suppression[] {
+  const lines = content.split(/\r?\n/)
+  const suppressions: Suppression[] = []
+  let open: { rules?: string[]; fromLine: number }[] = []
+
+  lines.forEach((text, index) => {
+    const line = index + 1
+    const match = DIRECTIVE_PATTERN.exec(text)
+    if (!match) return
+
+    const ruleList = match[2].split('--')[0].split(/[\s,]+/).filter(Boolean)
+    const rules = ruleList.length > 0 ? ruleList : undefined
+
+    switch (match[1]) {
+      case 'disable-next-line':
+        suppressions.push({ rules, fromLine: line + 1, toLine: line + 1 })
+        break
+      case 'disable-line':
+        suppressions.push({ rules, fromLine: line, toLine: line })
+        break
+      case 'disable':
+        open.push({ rules, fromLine: line })
+        break
+      case 'enable':
+        open = open.flatMap(block => {
+          // A plain enable closes every block; a specific enable only closes its own rules
+          if (rules && !block.rules) return [block]
+
+          suppressions.push({ rules: block.rules, fromLine: block.fromLine, toLine: line })
+          const remaining = rules ? block.rules?.filter(rule => !rules.includes(rule)) : []
+          return remaining && remaining.length > 0 ? [{ rules: remaining, fromLine: line }] : []
+        })
+        break
+    }
+  })
+
+  open.forEach(block => suppressions.push({ rules: block.rules, fromLine: block.fromLine, toLine: lines.length }))
+  return suppressions
+}
+
+function isSuppressed(ruleId: string, line: number, suppressions: Suppression[]): boolean {
+  return suppressions.some(
+    suppression =>
+      line >= suppression.fromLine &&
+      line <= suppression.toLine &&
+      (!suppression.rules || suppression.rules.includes(ruleId))
+  )
+}
@@ -0,0 +1,72 @@
+import type { RuleSeverity } from './config.js'
+
+export interface RuleMeta {
+  description: string
+  defaultSeverity: Exclude<RuleSeverity, 'off'>
+  // Strict rules are off unless --strict is given or the config enables them
+  strict?: boolean
+}
+
+// Built-in validation rules, keyed by their stable rule id
+export const RULES: Record<string, RuleMeta> = {
+  'stencil/path-not-found': { description: 'The stencil path must exist', defaultSeverity: 'error' },
+  'stencil/not-a-directory': { description: 'The stencil path must be a directory', defaultSeverity: 'error' },
+  'settings/missing-file': { description: 'A stencil must contain stencil-settings.yml', defaultSeverity: 'error' },
+  'settings/read-error': { description: 'stencil-settings.yml must be readable', defaultSeverity: 'error' },
+  'settings/yaml-syntax': { description: 'stencil-settings.yml must be valid YAML', defaultSeverity: 'error' },
+  'settings/schema': { description: 'stencil-settings.yml must match the stencil settings schema', defaultSeverity: 'error' },
+  'settings/valid': { description: 'stencil-settings.yml is valid', defaultSeverity: 'info' },
+  'settings/id-format': { description: 'Stencil ids should only contain lowercase letters, numbers, hyphens and underscores', defaultSeverity: 'warn', strict: true },
+  'settings/version-format': { description: 'Stencil versions should follow semantic versioning (x.y.z)', defaultSeverity: 'warn', strict: true },
+  'settings/description': { description: 'Stencils should have a description', defaultSeverity: 'warn', strict: true },
+  'files/missing-reference': { description: 'Files listed in `files` must exist', defaultSeverity: 'error' },
+  'files/reference-exists': { description: 'A file listed in `files` exists', defaultSeverity: 'info' },
+  'files/default-directory': { description: 'The default files/ directory exists', defaultSeverity: 'info' },
+  'files/missing-directory': { description: 'Stencils without a `files` list should have a files/ directory', defaultSeverity: 'warn' },
+  'files/unsafe-path': { description: '`files` entries and rendered output paths must not be absolute or leave their directory', defaultSeverity: 'error' },
+  'files/output-collision': { description: 'No two files may render to the same output path', defaultSeverity: 'error' },
+  'files/case-collision': { description: 'Output paths should not differ only in case', defaultSeverity: 'warn' },
+  'files/external-symlink': { description: 'Symlinks must point inside the stencil directory', defaultSeverity: 'error' },
+  'references/unresolved': { description: 'extend/include references must resolve to a stencil', defaultSeverity: 'error' },
+  'references/invalid-target': { description: 'Stencils referenced by extend/include must be valid', defaultSeverity: 'error' },
+  'references/resolved': { description: 'An extend/include reference was resolved', defaultSeverity: 'info' },
+  'references/circular': { description: 'extend/include references must not form a cycle', defaultSeverity: 'error' },
+  'references/inheritance-chain': { description: 'The extend chain of the stencil', defaultSeverity: 'info' },
+  'templates/parse-error': { description: 'Templates must be valid Handlebars', defaultSeverity: 'error' },
+  'templates/unknown-helper': { description: 'Templates should only call helpers the ProMarker server provides', defaultSeverity: 'warn' },
+  'variables/undeclared': { description: 'Template placeholders must be declared in `variables`', defaultSeverity: 'error' },
+  'variables/unused': { description: 'Declared variables should be used by a template', defaultSeverity: 'warn' },
+  'workspace/duplicate-id': { description: 'Stencil ids must be unique within a workspace', defaultSeverity: 'error' },
+  'plugins/rule-error': { description: 'Plugin rules must run without throwing', defaultSeverity: 'error' },
+  'remote/request-failed': { description: 'The ProMarker server must answer remote validation requests', defaultSeverity: 'error' },
+  'values/unknown': { description: 'Variable values must be given for declared variables only', defaultSeverity: 'error' },
+  'values/invalid': { description: 'Variable values must match the variable definition', defaultSeverity: 'error' },
+  'values/missing-required': { description: 'Required variables without a default must be given a value', defaultSeverity: 'error' },
+  'preview/missing-value': { description: 'Template placeholders should have a value when previewing', defaultSeverity: 'warn' },
+  'preview/render-error': { description: 'Templates must render with the given values', defaultSeverity: 'error' }
+}
+
+export function describeRule(ruleId: string): string {
+  return RULES[ruleId]?.description ?? ruleId
+}
+
+// Groups of checks that can be re-run independently (e.g. in watch mode)
+export type CheckGroup = 'settings' | 'files' | 'references' | 'templates' | 'plugins' | 'remote'
+
+const CHECK_GROUPS: Record<string, CheckGroup> = {
+  stencil: 'settings',
+  settings: 'settings',
+  workspace: 'settings',
+  files: 'files',
+  references: 'references',
+  templates: 'templates',
+  variables: 'templates',
+  values: 'templates',
+  preview: 'templates',
+  remote: 'remote',
+  server: 'remote'
+}
+
+export function getCheckGroup(ruleId: string): CheckGroup {
+  return CHECK_GROUPS[ruleId.split('/')[0]] ?? 'plugins'
+}
@@ -0,0 +1,289 @@
+import { request as httpRequest, type IncomingMessage } from 'http'
+import { request as httpsRequest } from 'https'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { setTimeout as delay } from 'timers/promises'
+import { URL } from 'url'
+import { z } from 'zod'
+import { resolveProfile } from './profiles.js'
+import type { ValidationResult } from './types.js'
+
+export const DEFAULT_SERVER_URL = 'http://localhost:8080'
+export const DEFAULT_TIMEOUT = 10000
+export const DEFAULT_RETRIES = 2
+// Server releases that serve the /api/v1 endpoints used by this client
+export const SUPPORTED_SERVER_MAJOR_VERSION = 1
+
+export interface ServerClientOptions {
+  baseUrl?: string
+  /** Per-request timeout in milliseconds */
+  timeout?: number
+  /** Number of retries for network errors, timeouts and 5xx/429 responses */
+  retries?: number
+  /** Delay before the first retry in milliseconds, doubled on every retry */
+  retryDelay?: number
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>
+}
+
+const SourceRangeSchema = z.object({
+  start: z.object({ line: z.number(), column: z.number() }),
+  end: z.object({ line: z.number(), column: z.number() })
+})
+
+export const ServerStatusSchema = z.object({
+  status: z.string(),
+  version: z.string().optional(),
+  name: z.string().optional()
+})
+
+export type ServerStatus = z.infer<typeof ServerStatusSchema>
+
+export const WhoAmISchema = z.object({
+  user: z.object({
+    name: z.string(),
+    email: z.string().optional()
+  }),
+  team: z.string().optional(),
+  expiresAt: z.string().optional()
+})
+
+export type WhoAmI = z.infer<typeof WhoAmISchema>
+
+export const RemoteFindingSchema = z.object({
+  rule: z.string().min(1),
+  type: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+  details: z.string().optional(),
+  // Relative to the stencil directory; defaults to stencil-settings.yml
+  path: z.string().optional(),
+  location: SourceRangeSchema.optional()
+})
+
+export const RemoteValidationResponseSchema = z.object({
+  results: z.array(RemoteFindingSchema)
+})
+
+export type RemoteValidationResponse = z.infer<typeof RemoteValidationResponseSchema>
+
+export interface RemoteValidationRequest {
+  id?: string
+  files: { path: string; content: string }[]
+}
+
+export interface GenerateRequest extends RemoteValidationRequest {
+  variables: Record<string, unknown>
+}
+
+export interface ServerClient {
+  baseUrl: string
+  status(): Promise<ServerStatus>
+  /** Returns the user the token belongs to, or null when the server rejects the token */
+  whoami(): Promise<WhoAmI | null>
+  validate(request: RemoteValidationRequest): Promise<RemoteValidationResponse>
+  /** Returns the generated files as a tar (or tar.gz) archive */
+  generate(request: GenerateRequest): Promise<Buffer>
+}
+
+// Server options as given on the command line
+export interface ServerCommandOptions {
+  profile?: string
+  serverUrl?: string
+  timeout?: string
+  retries?: string
+}
+
+interface HttpResponse {
+  status: number
+  body: Buffer
+}
+
+/**
+ * Creates a typed client for the local ProMarker server's REST API.
+ */
+export function createServerClient(options: ServerClientOptions = {}): ServerClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_SERVER_URL).replace(/\/+$/, '')
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const retryDelay = options.retryDelay ?? 500
+
+  // Statuses in `accepted` are returned to the caller instead of being thrown
+  const fetchWithRetries = async (method: string, path: string, body?: unknown, accepted: number[] = []): Promise<HttpResponse> => {
+    const url = new URL(`${baseUrl}${path}`)
+    const payload = body === undefined ? undefined : JSON.stringify(body)
+
+    let response: HttpResponse | undefined
+    let failure: Error | undefined
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) await delay(retryDelay * 2 ** (attempt - 1))
+
+      try {
+        response = await send(url, method, payload, timeout, options.headers)
+        failure = undefined
+      } catch (error) {
+        response = undefined
+        failure = error instanceof Error ? error : new Error(String(error))
+        continue
+      }
+      if (response.status < 500 && response.status !== 429) break
+    }
+
+    if (!response) {
+      throw new Error(`Could not reach ProMarker server at ${baseUrl}: ${failure?.message}`)
+    }
+    if ((response.status < 200 || response.status >= 300) && !accepted.includes(response.status)) {
+      const text = response.body.toString('utf-8')
+      throw new Error(`ProMarker server responded with ${response.status} for ${method} ${path}${text ? `: ${text}` : ''}`)
+    }
+    return response
+  }
+
+  const parse = <T>(response: HttpResponse, method: string, path: string, schema: z.ZodType<T>): T => {
+    let json: unknown
+    try {
+      json = JSON.parse(response.body.toString('utf-8'))
+    } catch {
+      throw new Error(`ProMarker server returned invalid JSON for ${method} ${path}`)
+    }
+
+    const validation = schema.safeParse(json)
+    if (!validation.success) {
+      const issues = validation.error.issues.map(issue => `${issue.path.join('.')} - ${issue.message}`).join('; ')
+      throw new Error(`Unexpected response from ProMarker server for ${method} ${path}: ${issues}`)
+    }
+    return validation.data
+  }
+
+  const call = async <T>(method: string, path: string, schema: z.ZodType<T>, body?: unknown): Promise<T> =>
+    parse(await fetchWithRetries(method, path, body), method, path, schema)
+
+  return {
+    baseUrl,
+    status: () => call('GET', '/api/v1/status', ServerStatusSchema),
+    whoami: async () => {
+      const response = await fetchWithRetries('GET', '/api/v1/auth/whoami', undefined, [401, 403])
+      return response.status === 401 || response.status === 403
+        ? null
+        : parse(response, 'GET', '/api/v1/auth/whoami', WhoAmISchema)
+    },
+    validate: request => call('POST', '/api/v1/stencils/validate', RemoteValidationResponseSchema, request),
+    generate: async request => (await fetchWithRetries('POST', '/api/v1/stencils/generate', request)).body
+  }
+}
+
+/**
+ * Converts `--profile`, `--server-url`, `--timeout` and `--retries` into
+ * client options. The server URL and token come from the active profile
+ * unless overridden by the command line or environment.
+ */
+export function toServerClientOptions(
+  options: ServerCommandOptions,
+  env: Record<string, string | undefined> = process.env
+): ServerClientOptions {
+  const profile = resolveProfile(options, env)
+  return {
+    ...parseRequestOptions(options),
+    baseUrl: profile.url,
+    headers: profile.token ? { authorization: `Bearer ${profile.token}` } : undefined
+  }
+}
+
+/**
+ * Parses `--timeout` and `--retries`.
+ */
+export function parseRequestOptions(options: Pick<ServerCommandOptions, 'timeout' | 'retries'>): Pick<ServerClientOptions, 'timeout' | 'retries'> {
+  const count = (name: string, value?: string) => {
+    if (value === undefined) return undefined
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative integer: ${value}`)
+    }
+    return parsed
+  }
+
+  return {
+    timeout: count('--timeout', options.timeout),
+    retries: count('--retries', options.retries)
+  }
+}
+
+/**
+ * Reads stencil files (relative to the stencil directory) into the base64
+ * encoded form used by request bodies.
+ */
+export function encodeStencilFiles(stencilDir: string, files: string[]): RemoteValidationRequest['files'] {
+  return files.map(file => ({
+    path: file,
+    content: readFileSync(resolve(stencilDir, file)).toString('base64')
+  }))
+}
+
+/**
+ * Sends a stencil to the server's validation endpoint and adds the server's
+ * findings to the results. Server rule ids are prefixed with `server/`; a
+ * failed request is reported as a `remote/request-failed` result.
+ */
+export async function runRemoteValidation(
+  client: ServerClient,
+  stencil: { stencilDir: string; settingsFile: string; id?: string; files: string[] },
+  results: ValidationResult[]
+) {
+  try {
+    const response = await client.validate({
+      id: stencil.id,
+      files: encodeStencilFiles(stencil.stencilDir, stencil.files)
+    })
+
+    for (const finding of response.results) {
+      results.push({
+        path: finding.path ? resolve(stencil.stencilDir, finding.path) : stencil.settingsFile,
+        rule: finding.rule.startsWith('server/') ? finding.rule : `server/${finding.rule}`,
+        type: finding.type,
+        message: finding.message,
+        details: finding.details,
+        location: finding.location
+      })
+    }
+  } catch (error) {
+    results.push({
+      path: stencil.settingsFile,
+      rule: 'remote/request-failed',
+      type: 'error',
+      message: 'Remote validation failed',
+      details: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+function send(
+  url: URL,
+  method: string,
+  payload: string | undefined,
+  timeout: number,
+  headers: Record<string, string> = {}
+): Promise<HttpResponse> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest
+
+  return new Promise((resolvePromise, reject) => {
+    const req = request(url, {
+      method,
+      headers: {
+        accept: 'application/json',
+        ...(payload !== undefined && {
+          'content-type': 'application/json',
+          'content-length': Buffer.byteLength(payload)
+        }),
+        ...headers
+      }
+    }, (res: IncomingMessage) => {
+      const chunks: Buffer[] = []
+      res.on('data', chunk => chunks.push(chunk))
+      res.on('end', () => resolvePromise({ status: res.statusCode ?? 0, body: Buffer.concat(chunks) }))
+      res.on('error', reject)
+    })
+
+    req.setTimeout(timeout, () => req.destroy(new Error(`Request timed out after ${timeout}ms`)))
+    req.on('error', reject)
+    req.end(payload)
+  })
+}
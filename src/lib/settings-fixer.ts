@@ -0,0 +1,160 @@
+import { readdirSync } from 'fs'
+import { join } from 'path'
+import { isScalar, parse as parseYaml, type Scalar } from 'yaml'
+import type { YamlSource } from './source-location.js'
+import { STENCIL_ID_PATTERN } from './stencil-settings.js'
+import type { SettingsFix } from './types.js'
+
+/**
+ * A fix together with the character offsets of the scalar it replaces.
+ */
+export interface PlannedFix extends SettingsFix {
+  range: [number, number]
+  replacement: string
+}
+
+const SHORT_VERSION_PATTERN = /^(\d+)(?:\.(\d+))?$/
+
+/**
+ * Finds mechanical problems in stencil-settings.yml that can be corrected
+ * without guessing: uppercase ids, short versions (`1.0` → `1.0.0`) and
+ * `files` entries whose case differs from the file on disk.
+ */
+export function findSettingsFixes(stencilDir: string, source: YamlSource): PlannedFix[] {
+  const fixes: PlannedFix[] = []
+  const plan = (path: (string | number)[], rule: string, message: string, to: (from: string) => string | undefined) => {
+    const node = source.document.getIn(path, true)
+    if (!isScalar(node) || !node.range || !isInlineScalar(node)) return
+
+    // Non-string scalars (e.g. `version: 1.0`) are fixed based on how they are written
+    const raw = source.content.slice(node.range[0], node.range[1])
+    const from = typeof node.value === 'string' ? node.value : raw
+    const fixed = to(from)
+    if (fixed === undefined) return
+
+    fixes.push({
+      rule,
+      message,
+      from,
+      to: fixed,
+      location: source.locate(path),
+      range: [node.range[0], node.range[1]],
+      replacement: renderScalar(node, fixed)
+    })
+  }
+
+  plan(['id'], 'settings/id-format', 'Stencil ID converted to lowercase', from => {
+    const lowercase = from.toLowerCase()
+    return !STENCIL_ID_PATTERN.test(from) && STENCIL_ID_PATTERN.test(lowercase) ? lowercase : undefined
+  })
+
+  // An unquoted `version: 1.0` is read as a number and fails the schema
+  const versionRule = typeof source.document.get('version') === 'number' ? 'settings/schema' : 'settings/version-format'
+  plan(['version'], versionRule, 'Version completed to semantic versioning format', from => {
+    const match = SHORT_VERSION_PATTERN.exec(from)
+    return match ? `${match[1]}.${match[2] ?? '0'}.0` : undefined
+  })
+
+  const files = source.document.toJS()?.files
+  if (Array.isArray(files)) {
+    files.forEach((file, index) => {
+      if (typeof file !== 'string') return
+      plan(['files', index], 'files/missing-reference', 'File reference changed to match the case on disk', () =>
+        findCaseVariant(stencilDir, file)
+      )
+    })
+  }
+
+  return fixes
+}
+
+/**
+ * Applies fixes to the original text. Only the fixed scalars are replaced,
+ * so comments, quoting and formatting elsewhere stay untouched.
+ */
+export function applySettingsFixes(content: string, fixes: PlannedFix[]): string {
+  return [...fixes]
+    .sort((a, b) => b.range[0] - a.range[0])
+    .reduce((text, fix) => text.slice(0, fix.range[0]) + fix.replacement + text.slice(fix.range[1]), content)
+}
+
+/**
+ * Renders a minimal unified diff of two versions of a file. Fixes replace
+ * single-line scalars, so both versions always have the same line count.
+ */
+export function formatFixDiff(file: string, before: string, after: string): string {
+  const oldLines = before.split('\n')
+  const newLines = after.split('\n')
+  const lines = [`--- a/${file}`, `+++ b/${file}`]
+
+  for (let index = 0; index < oldLines.length; index++) {
+    if (oldLines[index] === newLines[index]) continue
+
+    let end = index
+    while (end + 1 < oldLines.length && oldLines[end + 1] !== newLines[end + 1]) end++
+
+    const count = end - index + 1
+    const header = count === 1 ? `${index + 1}` : `${index + 1},${count}`
+    lines.push(`@@ -${header} +${header} @@`)
+    lines.push(...oldLines.slice(index, end + 1).map(line => `-${line}`))
+    lines.push(...newLines.slice(index, end + 1).map(line => `+${line}`))
+    index = end
+  }
+
+  return lines.join('\n')
+}
+
+function isInlineScalar(node: Scalar): boolean {
+  return node.type === 'PLAIN' || node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE'
+}
+
+// Keeps the original quoting style of the scalar
+function renderScalar(node: Scalar, value: string): string {
+  switch (node.type) {
+    case 'QUOTE_DOUBLE':
+      return JSON.stringify(value)
+    case 'QUOTE_SINGLE':
+      return `'${value.replace(/'/g, "''")}'`
+    default:
+      return parseYaml(value) === value ? value : JSON.stringify(value)
+  }
+}
+
+/**
+ * Returns the on-disk spelling of a relative path when it only exists with
+ * different letter case, or undefined when it matches exactly, does not
+ * exist at all or the match is ambiguous.
+ */
+function findCaseVariant(dir: string, relativePath: string): string | undefined {
+  const segments = relativePath.split('/')
+  let current = dir
+
+  const matched = segments.map(segment => {
+    if (current === '' || segment === '' || segment === '.' || segment === '..') {
+      current = current && join(current, segment)
+      return segment
+    }
+
+    let entries: string[]
+    try {
+      entries = readdirSync(current)
+    } catch {
+      current = ''
+      return segment
+    }
+
+    const candidates = entries.includes(segment)
+      ? [segment]
+      : entries.filter(entry => entry.toLowerCase() === segment.toLowerCase())
+    if (candidates.length !== 1) {
+      current = ''
+      return segment
+    }
+
+    current = join(current, candidates[0])
+    return candidates[0]
+  })
+
+  const variant = matched.join('/')
+  return current && variant !== relativePath ? variant : undefined
+}
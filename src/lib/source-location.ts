@@ -0,0 +1,136 @@
+import { LineCounter, isMap, isScalar, isSeq, parseDocument, type Document, type Node } from 'yaml'
+
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+export interface SourceRange {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+export interface YamlSourceError {
+  message: string
+  location: SourceRange
+}
+
+export interface YamlSource {
+  content: string
+  document: Document
+  errors: YamlSourceError[]
+  /** Returns the source range of the value at the given path (or of its closest existing parent key) */
+  locate(path: PropertyKey[]): SourceRange | undefined
+}
+
+/**
+ * Parses YAML while keeping track of source positions, so that findings can
+ * point at the exact lines of the offending keys and values.
+ */
+export function parseYamlSource(content: string): YamlSource {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter, prettyErrors: false })
+
+  const toRange = (start: number, end: number): SourceRange => {
+    const startPos = lineCounter.linePos(start)
+    let endPos = lineCounter.linePos(Math.max(start, end))
+    // Block values end after their trailing newline; keep the range on the last value line
+    if (end > start && endPos.col === 1) {
+      endPos = lineCounter.linePos(end - 1)
+    }
+    return {
+      start: { line: startPos.line, column: startPos.col },
+      end: { line: endPos.line, column: endPos.col }
+    }
+  }
+
+  const errors = document.errors.map(error => ({
+    message: error.message,
+    location: toRange(error.pos[0], error.pos[1])
+  }))
+
+  const locate = (path: PropertyKey[]): SourceRange | undefined => {
+    let node: unknown = document.contents
+    // Keys missing at the top level point at the start of the document
+    const rootRange = rangeOf(node)
+    let range = rootRange ? toRange(rootRange[0], rootRange[0]) : undefined
+
+    for (const segment of path) {
+      if (isMap(node)) {
+        const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment))
+        if (!pair) return range
+
+        const keyRange = rangeOf(pair.key)
+        const valueRange = rangeOf(pair.value)
+        if (keyRange) {
+          range = toRange(keyRange[0], valueRange ? valueRange[1] : keyRange[1])
+        }
+        node = pair.value
+      } else if (isSeq(node) && typeof segment === 'number') {
+        const item = node.items[segment]
+        const itemRange = rangeOf(item)
+        if (!itemRange) return range
+
+        range = toRange(itemRange[0], itemRange[1])
+        node = item
+      } else {
+        return range
+      }
+    }
+    return range
+  }
+
+  return { content, document, errors, locate }
+}
+
+export interface CodeFrameStyles {
+  highlight?: (text: string) => string
+  dim?: (text: string) => string
+}
+
+/**
+ * Renders the lines around a source range with the range highlighted,
+ * similar to the code frames printed by compilers.
+ */
+export function formatCodeFrame(
+  source: string,
+  range: SourceRange,
+  styles: CodeFrameStyles = {},
+  contextLines = 1
+): string[] {
+  const highlight = styles.highlight ?? ((text: string) => text)
+  const dim = styles.dim ?? ((text: string) => text)
+  const lines = source.split(/\r?\n/)
+  const first = Math.max(1, range.start.line - contextLines)
+  const last = Math.min(lines.length, range.end.line + contextLines, range.start.line + contextLines + 4)
+  const gutterWidth = String(last).length
+  const frame: string[] = []
+
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1] ?? ''
+    const gutter = String(line).padStart(gutterWidth)
+    const isHighlighted = line >= range.start.line && line <= range.end.line
+
+    if (!isHighlighted) {
+      frame.push(dim(`  ${gutter} | ${text}`))
+      continue
+    }
+
+    frame.push(highlight(`> ${gutter} | ${text}`))
+    if (range.start.line === range.end.line) {
+      const width = Math.max(1, range.end.column - range.start.column)
+      const padding = ' '.repeat(gutterWidth)
+      frame.push(highlight(`  ${padding} | ${' '.repeat(range.start.column - 1)}${'^'.repeat(width)}`))
+    }
+  }
+
+  return frame
+}
+
+export function formatPosition(range: SourceRange | undefined): string {
+  return range ? `:${range.start.line}:${range.start.column}` : ''
+}
+
+function rangeOf(node: unknown): [number, number, number] | undefined {
+  return (node as Node | null | undefined)?.range ?? undefined
+}
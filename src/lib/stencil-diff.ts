@@ -0,0 +1,247 @@
+import { lstatSync, readFileSync, readlinkSync } from 'fs'
+import { join } from 'path'
+import { isDeepStrictEqual } from 'util'
+import { createReferenceResolver } from './reference-resolver.js'
+import { listOutputSources, toOutputPath } from './output-paths.js'
+import { parseSemver, SETTINGS_FILE_NAME, type SemverParts } from './stencil-settings.js'
+
+export type ChangeLevel = 'breaking' | 'feature' | 'patch'
+
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none'
+
+export interface StencilChange {
+  level: ChangeLevel
+  // Kind of change, e.g. variables/removed
+  kind: string
+  message: string
+}
+
+export interface StencilSnapshot {
+  dir: string
+  settings: Record<string, unknown>
+  // Output path → stencil-relative source file
+  outputs: Map<string, string>
+}
+
+export interface VersionCheck {
+  from: string
+  to: string
+  // Bump between the two versions; null when one is not x.y.z or the version went down
+  actual: VersionBump | null
+  // Smallest bump that covers the changes
+  required: VersionBump
+  ok: boolean
+  // Why the versions cannot be compared
+  problem?: string
+  // Smallest version covering the changes, when the new version does not
+  suggested?: string
+}
+
+const BUMP_RANK: Record<VersionBump, number> = { none: 0, patch: 1, minor: 2, major: 3 }
+
+const LEVEL_BUMP: Record<ChangeLevel, VersionBump> = { breaking: 'major', feature: 'minor', patch: 'patch' }
+
+/**
+ * Reads what a stencil diff compares: stencil-settings.yml and the files the
+ * stencil renders. Fails when the settings file cannot be read.
+ */
+export async function loadStencilSnapshot(dir: string): Promise<StencilSnapshot> {
+  const stencil = await createReferenceResolver(dir).load(dir)
+  if (!stencil.settings) {
+    throw new Error(`Cannot read ${SETTINGS_FILE_NAME} in ${dir}: ${stencil.error}`)
+  }
+
+  const outputs = new Map<string, string>()
+  for (const source of await listOutputSources(dir, stencil.settings)) {
+    outputs.set(toOutputPath(source), source)
+  }
+  return { dir, settings: stencil.settings, outputs }
+}
+
+/**
+ * Lists the changes between two versions of a stencil, classified by what
+ * they mean for users of the stencil: breaking, feature or patch.
+ */
+export function diffStencils(before: StencilSnapshot, after: StencilSnapshot): StencilChange[] {
+  const changes: StencilChange[] = []
+  const add = (level: ChangeLevel, kind: string, message: string) => changes.push({ level, kind, message })
+
+  // Stencils referencing this one by id or as a base break on these
+  if (before.settings.id !== after.settings.id) {
+    add('breaking', 'settings/id', `Stencil id changed: ${before.settings.id} → ${after.settings.id}`)
+  }
+  if (before.settings.extend !== after.settings.extend) {
+    add('breaking', 'references/extend', `Base stencil changed: ${before.settings.extend ?? '(none)'} → ${after.settings.extend ?? '(none)'}`)
+  }
+
+  const beforeIncludes = toStringList(before.settings.include)
+  const afterIncludes = toStringList(after.settings.include)
+  beforeIncludes.filter(ref => !afterIncludes.includes(ref)).forEach(ref => {
+    add('breaking', 'references/include-removed', `Include removed: ${ref}`)
+  })
+  afterIncludes.filter(ref => !beforeIncludes.includes(ref)).forEach(ref => {
+    add('feature', 'references/include-added', `Include added: ${ref}`)
+  })
+
+  diffVariables(toRecord(before.settings.variables), toRecord(after.settings.variables), add)
+
+  for (const [output, source] of before.outputs) {
+    const afterSource = after.outputs.get(output)
+    if (!afterSource) {
+      add('breaking', 'files/removed', `Output file removed: ${output}`)
+    } else if (!readSource(join(before.dir, source)).equals(readSource(join(after.dir, afterSource)))) {
+      add('patch', 'files/changed', `Template changed: ${output}`)
+    }
+  }
+  for (const output of after.outputs.keys()) {
+    if (!before.outputs.has(output)) add('feature', 'files/added', `Output file added: ${output}`)
+  }
+
+  for (const key of ['name', 'type', 'description']) {
+    if (before.settings[key] !== after.settings[key]) {
+      add('patch', `settings/${key}`, `Stencil ${key} changed`)
+    }
+  }
+
+  return changes
+}
+
+function diffVariables(
+  before: Record<string, Record<string, unknown>>,
+  after: Record<string, Record<string, unknown>>,
+  add: (level: ChangeLevel, kind: string, message: string) => void
+) {
+  // A required variable without a default must be passed by every user
+  const isMandatory = (variable: Record<string, unknown>) => variable.required === true && variable.default === undefined
+
+  for (const [name, oldVariable] of Object.entries(before)) {
+    const newVariable = after[name]
+    if (!newVariable) {
+      add('breaking', 'variables/removed', `Variable removed: ${name}`)
+      continue
+    }
+
+    if (oldVariable.type !== newVariable.type) {
+      add('breaking', 'variables/type', `Variable type changed: ${name} (${oldVariable.type} → ${newVariable.type})`)
+    }
+    if (!isMandatory(oldVariable) && isMandatory(newVariable)) {
+      add('breaking', 'variables/required', `Variable is now required: ${name}`)
+    } else if (isMandatory(oldVariable) && !isMandatory(newVariable)) {
+      add('feature', 'variables/optional', `Variable is no longer required: ${name}`)
+    }
+
+    const oldValues = toStringList(oldVariable.values)
+    const newValues = toStringList(newVariable.values)
+    const removedValues = oldValues.filter(value => !newValues.includes(value))
+    const addedValues = newValues.filter(value => !oldValues.includes(value))
+    if (removedValues.length > 0) {
+      add('breaking', 'variables/values-removed', `Enum values removed from ${name}: ${removedValues.join(', ')}`)
+    }
+    if (addedValues.length > 0) {
+      add('feature', 'variables/values-added', `Enum values added to ${name}: ${addedValues.join(', ')}`)
+    }
+
+    // A new or different pattern may reject values that were accepted before
+    if (newVariable.pattern !== undefined && newVariable.pattern !== oldVariable.pattern) {
+      add('breaking', 'variables/pattern', `Variable pattern changed: ${name}`)
+    } else if (newVariable.pattern === undefined && oldVariable.pattern !== undefined) {
+      add('feature', 'variables/pattern', `Variable pattern removed: ${name}`)
+    }
+    if (oldVariable.items !== newVariable.items) {
+      add('breaking', 'variables/items', `Array item type changed: ${name} (${oldVariable.items ?? 'any'} → ${newVariable.items ?? 'any'})`)
+    }
+
+    if (!isDeepStrictEqual(oldVariable.default, newVariable.default)) {
+      add('feature', 'variables/default', `Default value changed: ${name}`)
+    }
+    if (oldVariable.description !== newVariable.description) {
+      add('patch', 'variables/description', `Variable description changed: ${name}`)
+    }
+  }
+
+  for (const [name, newVariable] of Object.entries(after)) {
+    if (before[name]) continue
+    if (isMandatory(newVariable)) {
+      add('breaking', 'variables/added-required', `New required variable: ${name}`)
+    } else {
+      add('feature', 'variables/added', `Variable added: ${name}`)
+    }
+  }
+}
+
+/**
+ * Returns the smallest version bump that covers the given changes.
+ */
+export function requiredBump(changes: StencilChange[]): VersionBump {
+  return changes.reduce<VersionBump>((required, change) => {
+    const bump = LEVEL_BUMP[change.level]
+    return BUMP_RANK[bump] > BUMP_RANK[required] ? bump : required
+  }, 'none')
+}
+
+/**
+ * Checks that a version change is at least as large as the changes require.
+ * Below 1.0.0 a minor bump may carry breaking changes, as semver allows.
+ */
+export function checkVersionBump(from: string, to: string, changes: StencilChange[]): VersionCheck {
+  const required = requiredBump(changes)
+  const oldVersion = parseSemver(from)
+  const newVersion = parseSemver(to)
+  const actual = oldVersion && newVersion ? compareVersions(oldVersion, newVersion) : null
+
+  const effective = oldVersion?.major === 0 && required === 'major' ? 'minor' : required
+  const ok = actual !== null && BUMP_RANK[actual] >= BUMP_RANK[effective]
+  const problem = !oldVersion ? `Old version "${from}" does not follow semantic versioning (x.y.z)`
+    : !newVersion ? `New version "${to}" does not follow semantic versioning (x.y.z)`
+      : actual === null ? `Version went down from ${from} to ${to}` : undefined
+
+  return {
+    from,
+    to,
+    actual,
+    required,
+    ok,
+    ...(problem && { problem }),
+    ...(!ok && oldVersion && { suggested: bumpVersion(oldVersion, effective) })
+  }
+}
+
+function compareVersions(from: SemverParts, to: SemverParts): VersionBump | null {
+  for (const part of ['major', 'minor', 'patch'] as const) {
+    if (to[part] > from[part]) return part
+    if (to[part] < from[part]) return null
+  }
+  return 'none'
+}
+
+function bumpVersion(version: SemverParts, bump: VersionBump): string {
+  switch (bump) {
+    case 'major':
+      return `${version.major + 1}.0.0`
+    case 'minor':
+      return `${version.major}.${version.minor + 1}.0`
+    case 'patch':
+      return `${version.major}.${version.minor}.${version.patch + 1}`
+    default:
+      return `${version.major}.${version.minor}.${version.patch}`
+  }
+}
+
+// Symlinks compare by their target, the way a stencil exported from git holds them
+function readSource(path: string): Buffer {
+  return lstatSync(path).isSymbolicLink() ? Buffer.from(readlinkSync(path)) : readFileSync(path)
+}
+
+function toRecord(value: unknown): Record<string, Record<string, unknown>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).map(([name, definition]) => [
+      name,
+      typeof definition === 'object' && definition !== null ? (definition as Record<string, unknown>) : {}
+    ])
+  )
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : []
+}
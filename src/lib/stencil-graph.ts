@@ -0,0 +1,279 @@
+import { existsSync, statSync } from 'fs'
+import { join, relative, resolve, sep } from 'path'
+import { createReferenceResolver, getReferences, type ReferenceKind, type ResolvedStencil } from './reference-resolver.js'
+import { createIgnoreMatcher } from './ignore-rules.js'
+import { discoverStencils } from './workspace.js'
+import { listOutputSources } from './output-paths.js'
+import { SETTINGS_FILE_NAME } from './stencil-settings.js'
+
+export interface GraphNode {
+  // Stencil directory relative to the workspace root; identifies the node
+  path: string
+  id?: string
+  name?: string
+  type?: string
+  // A stencil without output files (a base) that nothing in the workspace extends or includes
+  orphan: boolean
+  // Referenced stencil outside the workspace root
+  external: boolean
+}
+
+export interface GraphEdge {
+  // Path of the referencing stencil
+  from: string
+  // Path of the referenced stencil; null when the reference is unresolved
+  to: string | null
+  kind: ReferenceKind
+  // Reference as written in stencil-settings.yml
+  ref: string
+  inCycle: boolean
+}
+
+export interface StencilGraph {
+  root: string
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  // Each cycle lists node paths and ends with its first node
+  cycles: string[][]
+}
+
+export interface AffectedStencil {
+  path: string
+  id?: string
+  // 1 for stencils referencing the base directly
+  depth: number
+}
+
+export interface BuildStencilGraphOptions {
+  // Extra ignore patterns on top of .promarkerignore
+  ignore?: string[]
+  // Root used to resolve extend/include references (default: the workspace root)
+  stencilRoot?: string
+}
+
+/**
+ * Builds the extend/include graph of every stencil under a workspace root,
+ * with unresolved references, cycles and orphaned base stencils marked.
+ */
+export async function buildStencilGraph(root: string, options: BuildStencilGraphOptions = {}): Promise<StencilGraph> {
+  root = resolve(process.cwd(), root)
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new Error(`Workspace root must be an existing directory: ${root}`)
+  }
+
+  const ignoreMatcher = createIgnoreMatcher([root], options.ignore)
+  const stencilDirs = (await discoverStencils(root)).filter(dir => !ignoreMatcher.ignores(join(dir, SETTINGS_FILE_NAME)))
+  if (stencilDirs.length === 0) {
+    throw new Error(`No ${SETTINGS_FILE_NAME} found under ${root}`)
+  }
+
+  const resolver = createReferenceResolver(resolve(process.cwd(), options.stencilRoot ?? root))
+  const toPath = (dir: string) => relative(root, dir).split(sep).join('/') || '.'
+  const nodes = new Map<string, GraphNode>()
+  const addNode = (stencil: ResolvedStencil, external: boolean) => {
+    const path = toPath(stencil.dir)
+    if (!nodes.has(path)) {
+      const settings = stencil.settings ?? {}
+      nodes.set(path, {
+        path,
+        id: stencil.id,
+        name: typeof settings.name === 'string' ? settings.name : undefined,
+        type: typeof settings.type === 'string' ? settings.type : undefined,
+        orphan: false,
+        external
+      })
+    }
+    return path
+  }
+
+  const edges: GraphEdge[] = []
+  const bases = new Set<string>()
+  for (const dir of stencilDirs) {
+    const stencil = await resolver.load(dir)
+    const from = addNode(stencil, false)
+    // Stencils that produce nothing themselves only exist to be extended or included
+    if (stencil.settings && (await listOutputSources(stencil.dir, stencil.settings)).length === 0) {
+      bases.add(from)
+    }
+    for (const { kind, ref } of getReferences(stencil.settings)) {
+      const target = await resolver.resolve(ref, stencil.dir)
+      edges.push({ from, to: target && toPath(target.dir), kind, ref, inCycle: false })
+    }
+  }
+
+  // Referenced stencils outside the root are added once every workspace stencil is known
+  for (const edge of edges) {
+    if (edge.to && !nodes.has(edge.to)) {
+      addNode(await resolver.load(resolve(root, edge.to)), true)
+    }
+  }
+
+  const cycles = findCycles([...nodes.keys()], edges)
+  for (const cycle of cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      edges.filter(edge => edge.from === cycle[i] && edge.to === cycle[i + 1]).forEach(edge => { edge.inCycle = true })
+    }
+  }
+
+  for (const node of nodes.values()) {
+    node.orphan = bases.has(node.path) && !edges.some(edge => edge.to === node.path && edge.from !== node.path)
+  }
+
+  return { root, nodes: [...nodes.values()], edges, cycles }
+}
+
+function findCycles(paths: string[], edges: GraphEdge[]): string[][] {
+  const cycles: string[][] = []
+  const visited = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (path: string) => {
+    visited.add(path)
+    stack.push(path)
+
+    for (const edge of edges) {
+      if (edge.from !== path || !edge.to) continue
+
+      const index = stack.indexOf(edge.to)
+      if (index !== -1) {
+        cycles.push([...stack.slice(index), edge.to])
+      } else if (!visited.has(edge.to)) {
+        visit(edge.to)
+      }
+    }
+
+    stack.pop()
+  }
+
+  paths.forEach(path => {
+    if (!visited.has(path)) visit(path)
+  })
+  return cycles
+}
+
+/**
+ * Finds the graph node of a stencil given by id or path (relative to the
+ * workspace root, or to the current directory).
+ */
+export function findGraphNode(graph: StencilGraph, reference: string): GraphNode | undefined {
+  const byId = graph.nodes.find(node => node.id === reference)
+  if (byId) return byId
+
+  const candidates = [resolve(graph.root, reference), resolve(process.cwd(), reference)]
+    .map(dir => relative(graph.root, dir).split(sep).join('/') || '.')
+  return graph.nodes.find(node => candidates.includes(node.path))
+}
+
+/**
+ * Lists every stencil that extends or includes the given stencil, directly or
+ * through other stencils, nearest first.
+ */
+export function findAffectedStencils(graph: StencilGraph, path: string): AffectedStencil[] {
+  const affected: AffectedStencil[] = []
+  const seen = new Set([path])
+  let current = [path]
+
+  for (let depth = 1; current.length > 0; depth++) {
+    const next: string[] = []
+    for (const edge of graph.edges) {
+      if (!edge.to || !current.includes(edge.to) || seen.has(edge.from)) continue
+      seen.add(edge.from)
+      next.push(edge.from)
+      affected.push({ path: edge.from, id: graph.nodes.find(node => node.path === edge.from)?.id, depth })
+    }
+    current = next
+  }
+  return affected
+}
+
+/**
+ * Keeps the given nodes and the edges between them.
+ */
+export function selectSubgraph(graph: StencilGraph, paths: string[]): StencilGraph {
+  return {
+    root: graph.root,
+    nodes: graph.nodes.filter(node => paths.includes(node.path)),
+    edges: graph.edges.filter(edge => paths.includes(edge.from) && edge.to !== null && paths.includes(edge.to)),
+    cycles: graph.cycles.filter(cycle => cycle.every(path => paths.includes(path)))
+  }
+}
+
+/**
+ * Renders the graph in Graphviz DOT. Edges point from the referencing stencil
+ * to the referenced one; problems are drawn in red, orphans in orange.
+ */
+export function formatGraphDot(graph: StencilGraph, highlight?: string): string {
+  const lines: string[] = []
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+
+  lines.push('digraph stencils {')
+  lines.push('  rankdir=BT')
+  lines.push('  node [shape=box, style="rounded,filled", fillcolor=white]')
+  for (const node of graph.nodes) {
+    const attributes = [`label=${quote(describeNode(node))}`]
+    if (node.path === highlight) attributes.push('fillcolor=lightblue', 'penwidth=2')
+    else if (node.orphan) attributes.push('color=orange', 'fillcolor=lightyellow')
+    if (node.external) attributes.push('style="rounded,dashed"')
+    lines.push(`  ${quote(node.path)} [${attributes.join(', ')}]`)
+  }
+
+  graph.edges.forEach((edge, index) => {
+    const attributes = [`label=${edge.kind}`]
+    if (edge.kind === 'include') attributes.push('style=dashed')
+    if (edge.inCycle) attributes.push('color=red', 'penwidth=2')
+
+    if (edge.to) {
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(', ')}]`)
+    } else {
+      const missing = `unresolved-${index}`
+      lines.push(`  ${quote(missing)} [label=${quote(`${edge.ref}\n(unresolved)`)}, color=red, fontcolor=red, style="rounded,dashed"]`)
+      lines.push(`  ${quote(edge.from)} -> ${quote(missing)} [${[...attributes, 'color=red'].join(', ')}]`)
+    }
+  })
+  lines.push('}')
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart, e.g. for Markdown documentation.
+ */
+export function formatGraphMermaid(graph: StencilGraph, highlight?: string): string {
+  const lines: string[] = []
+  const nodeIds = new Map(graph.nodes.map((node, index) => [node.path, `s${index}`]))
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`
+  const problemLinks: number[] = []
+
+  lines.push('flowchart BT')
+  for (const node of graph.nodes) {
+    const className = node.path === highlight ? ':::highlight' : node.orphan ? ':::orphan' : node.external ? ':::external' : ''
+    lines.push(`  ${nodeIds.get(node.path)}[${label(describeNode(node))}]${className}`)
+  }
+
+  graph.edges.forEach((edge, index) => {
+    const arrow = edge.kind === 'include' ? `-.->|${edge.kind}|` : `-->|${edge.kind}|`
+    const from = nodeIds.get(edge.from)
+    if (edge.to) {
+      lines.push(`  ${from} ${arrow} ${nodeIds.get(edge.to)}`)
+      if (edge.inCycle) problemLinks.push(index)
+    } else {
+      lines.push(`  ${from} ${arrow} u${index}[${label(`${edge.ref}\n(unresolved)`)}]:::unresolved`)
+      problemLinks.push(index)
+    }
+  })
+
+  lines.push('  classDef unresolved stroke:#d00,color:#d00,stroke-dasharray:4')
+  lines.push('  classDef orphan stroke:#e80,fill:#ffd')
+  lines.push('  classDef external stroke-dasharray:4')
+  lines.push('  classDef highlight stroke:#06c,stroke-width:2px,fill:#def')
+  if (problemLinks.length > 0) {
+    lines.push(`  linkStyle ${problemLinks.join(',')} stroke:#d00,stroke-width:2px`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+export function describeNode(node: GraphNode): string {
+  const title = node.id ?? node.path
+  return node.id && node.id !== node.path ? `${title}\n${node.path}` : title
+}
@@ -0,0 +1,98 @@
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { Document, parse as parseYaml } from 'yaml'
+import {
+  CURRENT_SCHEMA_VERSION,
+  parseStencilSettings,
+  SEMVER_PATTERN,
+  SETTINGS_FILE_NAME,
+  STENCIL_ID_PATTERN
+} from './stencil-settings.js'
+
+export interface StencilAnswers {
+  id: string
+  name: string
+  type: string
+  version: string
+  description: string
+  extend?: string
+}
+
+/**
+ * Turns a directory name into a stencil id that passes the strict id check.
+ */
+export function suggestStencilId(dirName: string): string {
+  return dirName.toLowerCase().replace(/[^a-z0-9-_]+/g, '-').replace(/^-+|-+$/g, '') || 'my-stencil'
+}
+
+export function checkStencilId(id: string): string | null {
+  return STENCIL_ID_PATTERN.test(id) ? null : `id "${id}" may only contain lowercase letters, numbers, hyphens and underscores`
+}
+
+export function checkStencilVersion(version: string): string | null {
+  return SEMVER_PATTERN.test(version) ? null : `version "${version}" must follow semantic versioning (x.y.z)`
+}
+
+/**
+ * Checks answers against the schema and the strict rules, so that a new
+ * stencil starts out without validation errors or warnings.
+ */
+export function checkStencilAnswers(answers: StencilAnswers): string[] {
+  const problems = [checkStencilId(answers.id), checkStencilVersion(answers.version)]
+  if (!answers.name.trim()) problems.push('name is required')
+  if (!answers.type.trim()) problems.push('type is required')
+  if (!answers.description.trim()) problems.push('description is required')
+  return problems.filter((problem): problem is string => problem !== null)
+}
+
+export function renderStencilSettings(answers: StencilAnswers): string {
+  const document = new Document({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: answers.id,
+    name: answers.name,
+    version: answers.version,
+    type: answers.type,
+    description: answers.description,
+    ...(answers.extend && { extend: answers.extend })
+  })
+  document.commentBefore = ' ProMarker stencil definition\n Check it with: promarker validate --strict'
+  document.comment = [
+    ' Declare the placeholders used by templates in files/, e.g.',
+    ' variables:',
+    '   serviceName:',
+    '     type: string',
+    '     required: true'
+  ].join('\n')
+  return document.toString()
+}
+
+/**
+ * Writes stencil-settings.yml and an empty files/ directory. Returns the
+ * created paths relative to the stencil directory.
+ */
+export function writeStencilScaffold(dir: string, answers: StencilAnswers, options: { force?: boolean } = {}): string[] {
+  const settingsFile = join(dir, SETTINGS_FILE_NAME)
+  if (existsSync(settingsFile) && !options.force) {
+    throw new Error(`${SETTINGS_FILE_NAME} already exists in ${dir} (use --force to overwrite)`)
+  }
+
+  const content = renderStencilSettings(answers)
+  const validation = parseStencilSettings(parseYaml(content))
+  if (!validation.success) {
+    throw new Error(`Generated settings do not match the schema: ${validation.issues.map(issue => issue.message).join('; ')}`)
+  }
+
+  const created = [SETTINGS_FILE_NAME]
+  mkdirSync(dir, { recursive: true })
+  writeFileSync(settingsFile, content)
+
+  // Keep the otherwise empty files/ directory under version control
+  const filesDir = join(dir, 'files')
+  if (!existsSync(filesDir) || readdirSync(filesDir).length === 0) {
+    mkdirSync(filesDir, { recursive: true })
+    writeFileSync(join(filesDir, '.gitkeep'), '')
+    created.push('files/.gitkeep')
+  }
+
+  return created
+}
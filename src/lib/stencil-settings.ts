@@ -0,0 +1,199 @@
+import { z } from 'zod'
+
+export const SETTINGS_FILE_NAME = 'stencil-settings.yml'
+
+// Naming and version conventions checked in strict mode
+export const STENCIL_ID_PATTERN = /^[a-z0-9-_]+$/
+export const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)/
+
+export interface SemverParts {
+  major: number
+  minor: number
+  patch: number
+}
+
+/**
+ * Returns the x.y.z parts of a stencil version, or null when the version
+ * does not follow semantic versioning.
+ */
+export function parseSemver(version: string): SemverParts | null {
+  const match = SEMVER_PATTERN.exec(version)
+  return match ? { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]) } : null
+}
+
+export const VARIABLE_TYPES = ['string', 'number', 'boolean', 'enum', 'array'] as const
+
+// Variable definition schema (entries of `variables`)
+export const VariableDefinitionSchema = z
+  .object({
+    type: z.enum(VARIABLE_TYPES),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+    default: z.unknown().optional(),
+    pattern: z.string().optional(),
+    values: z.array(z.union([z.string(), z.number()])).min(1, 'Enum values must not be empty').optional(),
+    items: z.enum(['string', 'number', 'boolean']).optional()
+  })
+  .superRefine((variable, ctx) => {
+    if (variable.type === 'enum' && !variable.values) {
+      ctx.addIssue({ code: 'custom', path: ['values'], message: 'Enum variables must declare values' })
+    }
+    if (variable.values && variable.type !== 'enum') {
+      ctx.addIssue({ code: 'custom', path: ['values'], message: 'values is only allowed for enum variables' })
+    }
+    if (variable.items && variable.type !== 'array') {
+      ctx.addIssue({ code: 'custom', path: ['items'], message: 'items is only allowed for array variables' })
+    }
+    if (variable.pattern !== undefined) {
+      if (variable.type !== 'string') {
+        ctx.addIssue({ code: 'custom', path: ['pattern'], message: 'pattern is only allowed for string variables' })
+      } else {
+        try {
+          new RegExp(variable.pattern)
+        } catch {
+          ctx.addIssue({ code: 'custom', path: ['pattern'], message: `Invalid regular expression: ${variable.pattern}` })
+        }
+      }
+    }
+    if (variable.default !== undefined) {
+      const problem = checkVariableValue(variable, variable.default)
+      if (problem) {
+        ctx.addIssue({ code: 'custom', path: ['default'], message: `Invalid default value: ${problem}` })
+      }
+    }
+  })
+
+export type VariableDefinition = z.infer<typeof VariableDefinitionSchema>
+
+// Stencil settings schema definition (schemaVersion 1)
+export const StencilSettingsSchema = z.object({
+  schemaVersion: z.literal(1).optional().describe('Version of the stencil-settings.yml schema this file is written for'),
+  id: z.string().min(1, 'Stencil ID is required').describe('Unique stencil id (lowercase letters, numbers, hyphens and underscores)'),
+  name: z.string().min(1, 'Stencil name is required').describe('Display name of the stencil'),
+  version: z.string().min(1, 'Version is required').describe('Stencil version (semantic versioning, x.y.z)'),
+  type: z.string().min(1, 'Stencil type is required').describe('Kind of project the stencil generates, e.g. service'),
+  description: z.string().optional().describe('What the stencil generates'),
+  files: z.array(z.string()).optional().describe('Template files, relative to the stencil directory'),
+  include: z.array(z.string()).optional().describe('Stencils (ids or paths) whose files are included'),
+  extend: z.string().optional().describe('Base stencil (id or path) this stencil extends'),
+  variables: z.record(z.string(), VariableDefinitionSchema).optional().describe('Variables used by the templates'),
+  metadata: z.record(z.string(), z.any()).optional().describe('Free-form metadata')
+})
+
+export type StencilSettings = z.infer<typeof StencilSettingsSchema>
+
+// Schema revisions by `schemaVersion`. A breaking change adds a revision
+// instead of editing an existing one, so stencils written for an older
+// revision keep validating against the same rules.
+const STENCIL_SETTINGS_SCHEMAS: Record<number, z.ZodType<StencilSettings>> = {
+  1: StencilSettingsSchema
+}
+
+// Settings files without `schemaVersion` predate versioning and use revision 1
+export const DEFAULT_SCHEMA_VERSION = 1
+export const CURRENT_SCHEMA_VERSION = 1
+export const SUPPORTED_SCHEMA_VERSIONS = Object.keys(STENCIL_SETTINGS_SCHEMAS).map(Number)
+
+export interface SettingsIssue {
+  path: PropertyKey[]
+  message: string
+}
+
+export type SettingsParseResult =
+  | { success: true; data: StencilSettings; schemaVersion: number }
+  | { success: false; issues: SettingsIssue[] }
+
+export function getStencilSettingsSchema(schemaVersion: number): z.ZodType<StencilSettings> | undefined {
+  return STENCIL_SETTINGS_SCHEMAS[schemaVersion]
+}
+
+/**
+ * Validates parsed settings against the schema revision selected by their
+ * `schemaVersion` key.
+ */
+export function parseStencilSettings(settings: unknown): SettingsParseResult {
+  const declared = typeof settings === 'object' && settings !== null && !Array.isArray(settings)
+    ? (settings as Record<string, unknown>).schemaVersion
+    : undefined
+  const schemaVersion = declared ?? DEFAULT_SCHEMA_VERSION
+  const schema = typeof schemaVersion === 'number' ? getStencilSettingsSchema(schemaVersion) : undefined
+  if (!schema) {
+    return {
+      success: false,
+      issues: [{
+        path: ['schemaVersion'],
+        message: `Unsupported schemaVersion ${JSON.stringify(declared)} (supported: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')})`
+      }]
+    }
+  }
+
+  const validation = schema.safeParse(settings)
+  if (!validation.success) {
+    return { success: false, issues: validation.error.issues.map(({ path, message }) => ({ path, message })) }
+  }
+  return { success: true, data: validation.data, schemaVersion: schemaVersion as number }
+}
+
+/**
+ * Returns the JSON Schema of a settings schema revision, for editors and
+ * other tools that validate stencil-settings.yml.
+ */
+export function toStencilSettingsJsonSchema(schemaVersion: number = CURRENT_SCHEMA_VERSION): Record<string, unknown> {
+  const schema = getStencilSettingsSchema(schemaVersion)
+  if (!schema) {
+    throw new Error(`Unsupported schemaVersion ${schemaVersion} (supported: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')})`)
+  }
+
+  // Draft 7 is the newest draft the YAML language server fully supports. Input
+  // mode leaves out additionalProperties: false, since unknown keys are accepted
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { target: 'draft-7', io: 'input', unrepresentable: 'any' })
+  return {
+    $schema,
+    title: `ProMarker ${SETTINGS_FILE_NAME} (schemaVersion ${schemaVersion})`,
+    ...jsonSchema
+  }
+}
+
+/**
+ * Checks a value against a variable definition and returns a description of
+ * the problem, or null when the value is acceptable.
+ */
+export function checkVariableValue(variable: VariableDefinition, value: unknown): string | null {
+  switch (variable.type) {
+    case 'string':
+      if (typeof value !== 'string') return `expected a string but got ${describeValue(value)}`
+      if (variable.pattern && isValidPattern(variable.pattern) && !new RegExp(variable.pattern).test(value)) {
+        return `"${value}" does not match pattern ${variable.pattern}`
+      }
+      return null
+    case 'number':
+      return typeof value === 'number' ? null : `expected a number but got ${describeValue(value)}`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `expected a boolean but got ${describeValue(value)}`
+    case 'enum':
+      return variable.values?.some(allowed => allowed === value)
+        ? null
+        : `expected one of ${(variable.values ?? []).join(', ')} but got ${String(value)}`
+    case 'array':
+      if (!Array.isArray(value)) return `expected an array but got ${describeValue(value)}`
+      if (variable.items && value.some(item => typeof item !== variable.items)) {
+        return `expected every item to be a ${variable.items}`
+      }
+      return null
+  }
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import Handlebars from 'handlebars'
+import { collectTemplateVariables, type TemplateVariableUsage } from './template-variables.js'
+import { findExternalSymlinks, toOutputPath } from './output-paths.js'
+import type { ValidationResult } from './types.js'
+
+export interface PreviewFile {
+  // Stencil-relative source file
+  source: string
+  // Output path with the placeholders filled in
+  output: string
+  template: boolean
+  // Rendered (or copied) content; null for binary files and templates that failed to render
+  content: string | null
+}
+
+export interface StencilPreview {
+  files: PreviewFile[]
+  results: ValidationResult[]
+}
+
+/**
+ * Renders the output files of a stencil in memory. Templates (`.hbs`) are
+ * rendered with Handlebars; other files are passed through. Placeholders
+ * without a value and rendering errors are reported, nothing is written.
+ *
+ * Helpers the ProMarker server provides cannot run locally: block helpers
+ * render their body, the others render as `[name]`. Symlinks pointing outside
+ * the stencil are reported and not read.
+ */
+export function renderStencilPreview(
+  stencilDir: string,
+  sources: string[],
+  values: Record<string, unknown>,
+  serverHelpers: string[] = []
+): StencilPreview {
+  const handlebars = Handlebars.create()
+  for (const name of serverHelpers) {
+    handlebars.registerHelper(name, function (this: unknown, ...args: unknown[]) {
+      const options = args[args.length - 1] as Handlebars.HelperOptions
+      return typeof options.fn === 'function' ? options.fn(this) : `[${name}]`
+    })
+  }
+
+  const files: PreviewFile[] = []
+  const results: ValidationResult[] = []
+  // Block helpers without arguments look like variables to the scan
+  const isProvided = (name: string) => (values[name] !== undefined && values[name] !== null) || serverHelpers.includes(name)
+  const externalLinks = new Map(findExternalSymlinks(stencilDir, sources.map(source => join(stencilDir, source))).map(link => [link.path, link]))
+
+  for (const source of sources) {
+    const file = join(stencilDir, source)
+    const template = source.endsWith('.hbs')
+    const externalLink = externalLinks.get(file)
+    if (externalLink) {
+      results.push({
+        path: file,
+        rule: 'files/external-symlink',
+        type: 'error',
+        message: `Symlink points outside the stencil directory: ${source}`,
+        details: externalLink.target ? `Target: ${externalLink.target}` : 'The link target does not exist'
+      })
+      files.push({ source, output: toOutputPath(source, values), template, content: null })
+      continue
+    }
+    const missing = new Map<string, TemplateVariableUsage | null>()
+
+    // Path placeholders without a value stay in the output path
+    collectTemplateVariables(source).usages
+      .filter(usage => !isProvided(usage.name))
+      .forEach(usage => missing.set(usage.name, null))
+
+    const buffer = readFileSync(file)
+    let content: string | null = buffer.includes(0) ? null : buffer.toString('utf-8')
+
+    if (template && content !== null) {
+      const scan = collectTemplateVariables(content)
+      scan.usages
+        .filter(usage => !isProvided(usage.name) && !missing.has(usage.name))
+        .forEach(usage => missing.set(usage.name, usage))
+
+      try {
+        if (scan.error) throw new Error(scan.error)
+        // The server generates source code, not HTML, so values are not escaped
+        content = handlebars.compile(content, { noEscape: true })(values)
+      } catch (error) {
+        results.push({
+          path: file,
+          rule: 'preview/render-error',
+          type: 'error',
+          message: `Template could not be rendered: ${source}`,
+          details: error instanceof Error ? error.message : String(error),
+          location: scan.errorLocation
+        })
+        content = null
+      }
+    }
+
+    for (const [name, usage] of missing) {
+      results.push({
+        path: file,
+        rule: 'preview/missing-value',
+        type: 'warning',
+        message: `No value for template variable: ${name}`,
+        details: usage ? 'Rendered as an empty string' : `Left as a placeholder in the output path of ${source}`,
+        location: usage
+          ? {
+            start: { line: usage.line, column: usage.column },
+            end: { line: usage.line, column: usage.column + name.length }
+          }
+          : undefined
+      })
+    }
+
+    files.push({ source, output: toOutputPath(source, values), template, content })
+  }
+
+  return { files, results }
+}
@@ -0,0 +1,212 @@
+import Handlebars from 'handlebars'
+import type { SourceRange } from './source-location.js'
+
+export interface TemplateVariableUsage {
+  name: string
+  line: number
+  column: number
+}
+
+export type TemplateHelperUsage = TemplateVariableUsage
+
+export interface TemplateVariableScan {
+  usages: TemplateVariableUsage[]
+  // Helpers called with arguments (`{{helper arg}}`, `{{#helper arg}}`, `(helper arg)`)
+  helpers: TemplateHelperUsage[]
+  error?: string
+  // Position of the syntax error, when Handlebars reports one
+  errorLocation?: SourceRange
+}
+
+// AST node types, reached through the handlebars exports (`hbs.AST` is only declared globally)
+type Visitor = Handlebars.Visitor
+type Program = ReturnType<typeof Handlebars.parseWithoutProcessing>
+type Statement = Program['body'][number]
+type AstNode = Parameters<Visitor['accept']>[0]
+type Expression = Parameters<Visitor['acceptArray']>[0][number]
+type PathExpression = Parameters<Visitor['PathExpression']>[0]
+type SubExpression = Parameters<Visitor['SubExpression']>[0]
+type MustacheStatement = Parameters<Visitor['MustacheStatement']>[0]
+type BlockStatement = Parameters<Visitor['BlockStatement']>[0]
+type PartialStatement = Parameters<Visitor['PartialStatement']>[0]
+type PartialBlockStatement = Parameters<Visitor['PartialBlockStatement']>[0]
+type Hash = Parameters<Visitor['Hash']>[0]
+
+// Helpers that Handlebars registers by default
+export const BUILT_IN_HELPERS = ['if', 'unless', 'each', 'with', 'lookup', 'log']
+
+// Block helpers that render their body against a new context
+const CONTEXT_CHANGING_HELPERS = new Set(['each', 'with'])
+
+interface Scope {
+  // Number of context changes between this scope and the template root
+  depth: number
+  blockParams: Set<string>
+}
+
+/**
+ * Collects the top-level variables referenced by a Handlebars template.
+ * Helper names, `@data` variables, block params and lookups inside
+ * `each`/`with` blocks (which refer to the iterated item) are skipped.
+ * Names in `knownHelpers` are helper calls even without arguments.
+ */
+export function collectTemplateVariables(source: string, knownHelpers: Iterable<string> = []): TemplateVariableScan {
+  const helperNames = new Set(knownHelpers)
+
+  let ast: Program
+  try {
+    ast = Handlebars.parseWithoutProcessing(source)
+  } catch (error) {
+    return {
+      usages: [],
+      helpers: [],
+      error: error instanceof Error ? formatParseError(error.message) : 'Unknown template parsing error',
+      errorLocation: locateParseError(error, source)
+    }
+  }
+
+  const usages: TemplateVariableUsage[] = []
+  const helpers: TemplateHelperUsage[] = []
+  const root: Scope = { depth: 0, blockParams: new Set() }
+
+  const addPath = (path: PathExpression, scope: Scope) => {
+    const name = path.parts[0]
+    if (!name) return
+
+    if (path.data) {
+      // Only @root.<name> points back at the template variables
+      if (name === 'root' && path.parts[1]) {
+        usages.push({ name: path.parts[1], ...position(path) })
+      }
+      return
+    }
+    if (path.depth === 0 && scope.blockParams.has(name)) return
+    if (path.depth < scope.depth) return
+
+    usages.push({ name, ...position(path) })
+  }
+
+  const visitExpression = (node: Expression, scope: Scope) => {
+    if (node.type === 'PathExpression') {
+      addPath(node as PathExpression, scope)
+    } else if (node.type === 'SubExpression') {
+      visitCall(node as SubExpression, scope)
+    }
+  }
+
+  const visitCall = (
+    node: { path: MustacheStatement['path']; params: Expression[]; hash?: Hash },
+    scope: Scope
+  ) => {
+    const hasArguments = node.params.length > 0 || (node.hash?.pairs.length ?? 0) > 0
+    const helperName = node.path.type === 'PathExpression' ? getHelperName(node.path as PathExpression) : undefined
+    // `{{name}}` is a variable lookup, `{{helper arg}}` and `{{knownHelper}}` are helper calls
+    if (helperName && (hasArguments || helperNames.has(helperName))) {
+      helpers.push({ name: helperName, ...position(node.path) })
+    } else if (!hasArguments) {
+      visitExpression(node.path, scope)
+    }
+    visitArguments(node, scope)
+  }
+
+  const visitArguments = (node: { params: Expression[]; hash?: Hash }, scope: Scope) => {
+    node.params.forEach(param => visitExpression(param, scope))
+    node.hash?.pairs.forEach(pair => visitExpression(pair.value, scope))
+  }
+
+  const visitProgram = (program: Program | undefined, scope: Scope) => {
+    program?.body.forEach(statement => visitStatement(statement, scope))
+  }
+
+  const visitStatement = (statement: Statement, scope: Scope) => {
+    switch (statement.type) {
+      case 'MustacheStatement':
+        visitCall(statement as MustacheStatement, scope)
+        break
+      // Partial names are neither variables nor helpers, only their arguments are
+      case 'PartialStatement':
+        visitArguments(statement as PartialStatement, scope)
+        break
+      case 'PartialBlockStatement': {
+        const partial = statement as PartialBlockStatement
+        visitArguments(partial, scope)
+        visitProgram(partial.program, scope)
+        break
+      }
+      case 'BlockStatement': {
+        const block = statement as BlockStatement
+        const helper = block.path.type === 'PathExpression' ? block.path.original : ''
+        visitCall(block, scope)
+
+        // `{{#items}}...{{/items}}` iterates like `each` when used without arguments
+        const changesContext = CONTEXT_CHANGING_HELPERS.has(helper) || (block.params.length === 0 && !helperNames.has(helper))
+        const blockParams = new Set([...scope.blockParams, ...(block.program?.blockParams ?? [])])
+        visitProgram(block.program, {
+          depth: changesContext ? scope.depth + 1 : scope.depth,
+          blockParams
+        })
+        visitProgram(block.inverse, scope)
+        break
+      }
+    }
+  }
+
+  visitProgram(ast, root)
+  return { usages, helpers }
+}
+
+// Drops the source excerpt from parse errors; the report shows a code frame instead
+function formatParseError(message: string): string {
+  const lines = message.split('\n')
+  return lines[0].startsWith('Parse error') && lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : message
+}
+
+function locateParseError(error: unknown, source: string): SourceRange | undefined {
+  // Block mismatches (`{{#if}}...{{/each}}`) carry the location of the block
+  const exception = error as { lineNumber?: number; column?: number; endLineNumber?: number; endColumn?: number }
+  if (typeof exception.lineNumber === 'number' && typeof exception.column === 'number') {
+    return {
+      start: { line: exception.lineNumber, column: exception.column + 1 },
+      end: { line: exception.endLineNumber ?? exception.lineNumber, column: (exception.endColumn ?? exception.column) + 1 }
+    }
+  }
+
+  // Syntax errors name the line and mark the token under an excerpt:
+  // "Parse error on line 2:\n<excerpt>\n-----^". The excerpt joins up to 20
+  // characters of the input before the token (without line breaks) with the
+  // text that follows; a leading "..." means earlier input was cut off.
+  const match = error instanceof Error ? /^Parse error on line (\d+):\n([^\n]*)\n(-*)\^/.exec(error.message) : null
+  if (!match) return undefined
+
+  const line = Number(match[1])
+  const lines = source.split('\n')
+  const before = match[2].slice(0, match[3].length)
+  if (before.startsWith('...')) {
+    // The token cannot be placed reliably in a cut-off excerpt, so the whole line is marked
+    const lineText = (lines[line - 1] ?? '').replace(/\r$/, '')
+    return {
+      start: { line, column: 1 },
+      end: { line, column: Math.max(lineText.length, 1) + 1 }
+    }
+  }
+
+  // The excerpt holds everything before the token
+  const column = before.length - lines.slice(0, line - 1).join('').length
+  if (column < 0) return undefined
+
+  return {
+    start: { line, column: column + 1 },
+    end: { line, column: column + 2 }
+  }
+}
+
+function getHelperName(path: PathExpression): string | undefined {
+  return !path.data && path.depth === 0 && path.parts.length === 1 ? path.parts[0] : undefined
+}
+
+function position(node: AstNode): { line: number; column: number } {
+  return {
+    line: node.loc?.start.line ?? 1,
+    column: (node.loc?.start.column ?? 0) + 1
+  }
+}
@@ -0,0 +1,87 @@
+import type { SourceRange } from './source-location.js'
+
+export interface ValidationResult {
+  path: string
+  rule: string
+  type: 'error' | 'warning' | 'info'
+  message: string
+  details?: string
+  location?: SourceRange
+}
+
+export interface ValidationSummary {
+  success: boolean
+  path: string
+  errors: ValidationResult[]
+  warnings: ValidationResult[]
+  info: ValidationResult[]
+  totalFiles: number
+  validatedAt: string
+  // Present when --fix or --fix-dry-run found something to correct
+  fixes?: FixReport
+  // Present when a baseline was applied
+  baseline?: BaselineReport
+  // True when the summary was read from the validation cache
+  cached?: boolean
+}
+
+export interface SettingsFix {
+  rule: string
+  message: string
+  from: string
+  to: string
+  location?: SourceRange
+}
+
+export interface FixReport {
+  file: string
+  // False for --fix-dry-run
+  applied: boolean
+  fixes: SettingsFix[]
+  diff: string
+}
+
+export interface BaselineEntry {
+  // Stencil directory, relative to the baseline file
+  stencil: string
+  rule: string
+  // File of the finding, relative to the baseline file
+  file: string
+  // Hash of rule, file, message and reported line text (not the line number)
+  fingerprint: string
+  message: string
+}
+
+export interface BaselineReport {
+  file: string
+  // Findings left out of the report because the baseline lists them
+  matched: number
+  // Baseline entries of the stencil that are no longer reported
+  fixed: BaselineEntry[]
+}
+
+export interface DuplicateStencilId {
+  id: string
+  paths: string[]
+}
+
+export interface WorkspaceSummary {
+  success: boolean
+  root: string
+  stencils: ValidationSummary[]
+  duplicateIds: DuplicateStencilId[]
+  // Present with --changed-since; stencils not affected by the changes are skipped
+  changedSince?: {
+    ref: string
+    skipped: number
+  }
+  totals: {
+    stencils: number
+    failed: number
+    errors: number
+    warnings: number
+    info: number
+    files: number
+  }
+  validatedAt: string
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { isAbsolute, join, relative, sep } from 'path'
+import { glob } from 'glob'
+import type { ValidationSummary } from './types.js'
+
+export const DEFAULT_CACHE_DIR = '.promarker-cache'
+
+// Bumped when the entry layout changes, so that old entries are not read
+const CACHE_FORMAT = 1
+
+export interface CacheKeyInput {
+  cliVersion: string
+  // Options that change the findings, e.g. strict and ignore patterns
+  options: Record<string, unknown>
+  // The stencil directory and the directories of the stencils it references
+  dirs: string[]
+  // Files outside those directories that apply to the stencil (config, ignore files)
+  files: string[]
+}
+
+export interface ValidationCache {
+  dir: string
+  key(input: CacheKeyInput): Promise<string>
+  get(stencilDir: string, key: string): ValidationSummary | null
+  set(stencilDir: string, key: string, summary: ValidationSummary): void
+}
+
+/**
+ * Creates a cache of validation summaries in the given directory, with one
+ * entry per stencil. An entry is only used while its key matches, and the key
+ * hashes the content of everything the findings depend on.
+ */
+export function createValidationCache(dir: string): ValidationCache {
+  const entryFile = (stencilDir: string) => join(dir, `${hash(stencilDir).slice(0, 16)}.json`)
+
+  return {
+    dir,
+
+    async key(input: CacheKeyInput) {
+      const digest = createHash('sha256')
+      digest.update(JSON.stringify({ format: CACHE_FORMAT, cliVersion: input.cliVersion, options: input.options }))
+
+      for (const file of [...new Set(input.files)].sort()) {
+        digest.update(`\0${file}\0${hashFile(file)}`)
+      }
+
+      for (const stencilDir of [...new Set(input.dirs)].sort()) {
+        const files = await glob('**/*', { cwd: stencilDir, dot: true, nodir: true, absolute: true })
+        // The cache may live inside a stencil; its own entries must not change the key
+        for (const file of files.filter(file => !isWithin(dir, file)).sort()) {
+          digest.update(`\0${relative(stencilDir, file).split(sep).join('/')}\0${hashFile(file)}`)
+        }
+        digest.update(`\0${stencilDir}`)
+      }
+
+      return digest.digest('hex')
+    },
+
+    get(stencilDir: string, key: string) {
+      const file = entryFile(stencilDir)
+      if (!existsSync(file)) return null
+
+      // A damaged entry is treated like a missing one; it is rewritten after validation
+      try {
+        const entry = JSON.parse(readFileSync(file, 'utf-8'))
+        if (entry.format !== CACHE_FORMAT || entry.key !== key || entry.summary?.path !== stencilDir) return null
+        return { ...entry.summary, cached: true }
+      } catch {
+        return null
+      }
+    },
+
+    set(stencilDir: string, key: string, summary: ValidationSummary) {
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+        // Keep the cache out of version control
+        writeFileSync(join(dir, '.gitignore'), '*\n')
+      }
+      writeFileSync(entryFile(stencilDir), JSON.stringify({ format: CACHE_FORMAT, key, summary }))
+    }
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function hashFile(file: string): string {
+  try {
+    return createHash('sha256').update(readFileSync(file)).digest('hex')
+  } catch {
+    // Missing files and dangling links still take part in the key
+    return 'unreadable'
+  }
+}
+
+function isWithin(dir: string, path: string): boolean {
+  const fromDir = relative(dir, path)
+  return fromDir === '' || (fromDir !== '..' && !fromDir.startsWith(`..${sep}`) && !isAbsolute(fromDir))
+}
@@ -0,0 +1,802 @@
+import { readFileSync, existsSync, realpathSync, statSync, writeFileSync } from 'fs'
+import { resolve, join, relative, sep, isAbsolute } from 'path'
+import { glob } from 'glob'
+import {
+  SETTINGS_FILE_NAME,
+  STENCIL_ID_PATTERN,
+  parseSemver,
+  parseStencilSettings
+} from './stencil-settings.js'
+import {
+  createReferenceResolver,
+  describeStencil,
+  resolveReferenceGraph,
+  type ReferenceGraph,
+  type ReferenceResolver,
+  type StencilReference
+} from './reference-resolver.js'
+import { BUILT_IN_HELPERS, collectTemplateVariables } from './template-variables.js'
+import { collectVariableDefinitions } from './variable-values.js'
+import { checkOutputPaths, findExternalSymlinks, isUnsafePath, listOutputSources } from './output-paths.js'
+import { createIgnoreMatcher, IGNORE_FILE_NAME, type IgnoreMatcher } from './ignore-rules.js'
+import { DEFAULT_CONCURRENCY, discoverStencils, mapWithConcurrency } from './workspace.js'
+import { parseYamlSource, type YamlSource } from './source-location.js'
+import { createConfigLoader, type PromarkerConfig } from './config.js'
+import { applyRules, assertKnownRules } from './rule-engine.js'
+import { runPluginRules } from './plugins.js'
+import { createServerClient, runRemoteValidation, toServerClientOptions, type ServerClient, type ServerCommandOptions } from './server-client.js'
+import { applySettingsFixes, findSettingsFixes, formatFixDiff } from './settings-fixer.js'
+import { applyBaseline, type Baseline } from './baseline.js'
+import { createValidationCache, type ValidationCache } from './validation-cache.js'
+import { listChangedFiles } from './git-changes.js'
+import { getCliVersion } from './package-info.js'
+import type { CheckGroup } from './rules.js'
+import type { DuplicateStencilId, FixReport, ValidationResult, ValidationSummary, WorkspaceSummary } from './types.js'
+
+export interface ValidateStencilOptions extends ServerCommandOptions {
+  // Enable the strict rules (naming, semver and description checks)
+  strict?: boolean
+  // promarker.config file; searched up from each stencil when omitted
+  config?: string
+  // Extra ignore patterns on top of .promarkerignore
+  ignore?: string[]
+  // Root used to resolve extend/include references (default: cwd)
+  stencilRoot?: string
+  // Rewrite stencil-settings.yml to correct auto-fixable findings
+  fix?: boolean
+  // Report the fixes without writing them
+  fixDryRun?: boolean
+  // Also validate on the ProMarker server
+  remote?: boolean
+  // Leave out findings recorded in this baseline
+  baseline?: Baseline
+  // Directory of the validation cache; results are not cached when omitted
+  cache?: string
+}
+
+export interface ValidateWorkspaceOptions extends ValidateStencilOptions {
+  // Stencils validated in parallel (default: 8)
+  concurrency?: number
+  // Only validate stencils affected by changes since this git ref
+  changedSince?: string
+}
+
+export interface ValidationContext {
+  resolver: ReferenceResolver
+  loadConfig: (stencilDir: string) => Promise<PromarkerConfig>
+  // Only set when remote validation is enabled
+  server?: ServerClient
+  // Check groups to run; all groups when undefined
+  checks?: Set<CheckGroup>
+  // Only set when the cache is enabled
+  cache?: ValidationCache
+}
+
+/**
+ * Validates every stencil found under a workspace root and checks that
+ * stencil ids are unique across the workspace.
+ */
+export async function validateWorkspace(root: string, options: ValidateWorkspaceOptions = {}): Promise<WorkspaceSummary> {
+  root = resolve(process.cwd(), root)
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new Error(`Workspace root must be an existing directory: ${root}`)
+  }
+
+  const ignoreMatcher = createIgnoreMatcher([root], options.ignore)
+  const stencilDirs = (await discoverStencils(root)).filter(dir => !ignoreMatcher.ignores(join(dir, SETTINGS_FILE_NAME)))
+  if (stencilDirs.length === 0) {
+    throw new Error(`No ${SETTINGS_FILE_NAME} found under ${root}`)
+  }
+
+  // Share one resolver so the id index is built once for the whole workspace
+  const context = createValidationContext(options, resolve(process.cwd(), options.stencilRoot ?? root))
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY
+
+  const selectedDirs = options.changedSince
+    ? await findChangedStencils(stencilDirs, listChangedFiles(options.changedSince, root), context)
+    : stencilDirs
+
+  // The baseline is applied once workspace findings have been added
+  const stencils = await mapWithConcurrency(selectedDirs, concurrency, dir =>
+    validateStencil(dir, { ...options, baseline: undefined }, context)
+  )
+
+  // Ids are compared across the whole workspace, but only reported for validated stencils
+  const duplicateIds = (await findDuplicateStencilIds(stencilDirs, context.resolver))
+    .filter(duplicate => duplicate.paths.some(dir => selectedDirs.includes(dir)))
+  for (const duplicate of duplicateIds) {
+    for (const dir of duplicate.paths) {
+      const summary = stencils.find(s => s.path === dir)
+      if (!summary) continue
+
+      const settingsFile = join(dir, SETTINGS_FILE_NAME)
+      const content = readFileSync(settingsFile, 'utf-8')
+      const ruleContext = { config: await context.loadConfig(dir), strict: options.strict }
+      const [result] = applyRules([{
+        path: settingsFile,
+        rule: 'workspace/duplicate-id',
+        type: 'error',
+        message: `Duplicate stencil id: ${duplicate.id}`,
+        details: `Also used by: ${duplicate.paths.filter(p => p !== dir).map(p => relative(root, p)).join(', ')}`,
+        location: parseYamlSource(content).locate(['id'])
+      }], ruleContext, settingsFile, content)
+
+      if (result?.type === 'error') summary.errors.push(result)
+      if (result?.type === 'warning') summary.warnings.push(result)
+      if (result?.type === 'info') summary.info.push(result)
+      summary.success = summary.errors.length === 0
+    }
+  }
+
+  if (options.baseline) {
+    for (const summary of stencils) applyBaseline(summary, options.baseline)
+  }
+
+  return {
+    success: stencils.every(s => s.success),
+    root,
+    stencils,
+    duplicateIds,
+    ...(options.changedSince && {
+      changedSince: { ref: options.changedSince, skipped: stencilDirs.length - selectedDirs.length }
+    }),
+    totals: {
+      stencils: stencils.length,
+      failed: stencils.filter(s => !s.success).length,
+      errors: stencils.reduce((sum, s) => sum + s.errors.length, 0),
+      warnings: stencils.reduce((sum, s) => sum + s.warnings.length, 0),
+      info: stencils.reduce((sum, s) => sum + s.info.length, 0),
+      files: stencils.reduce((sum, s) => sum + s.totalFiles, 0)
+    },
+    validatedAt: new Date().toISOString()
+  }
+}
+
+async function findDuplicateStencilIds(stencilDirs: string[], resolver: ReferenceResolver): Promise<DuplicateStencilId[]> {
+  const dirsById = new Map<string, string[]>()
+  for (const dir of stencilDirs) {
+    const stencil = await resolver.load(dir)
+    if (!stencil.id) continue
+    dirsById.set(stencil.id, [...(dirsById.get(stencil.id) ?? []), dir])
+  }
+
+  return [...dirsById.entries()]
+    .filter(([, paths]) => paths.length > 1)
+    .map(([id, paths]) => ({ id, paths }))
+}
+
+/**
+ * Returns the stencils whose findings may change with the given files: their
+ * own files, the stencils they reference, their config and ignore files.
+ */
+async function findChangedStencils(
+  stencilDirs: string[],
+  changedFiles: string[],
+  context: ValidationContext
+): Promise<string[]> {
+  // git reports real paths, e.g. /private/var rather than /var on macOS
+  const changed = changedFiles.map(toRealPath)
+  const selected: string[] = []
+
+  for (const dir of stencilDirs) {
+    const inputs = await collectStencilInputs(dir, context)
+    const dirs = inputs.dirs.map(toRealPath)
+    const files = new Set(inputs.files.map(toRealPath))
+    if (changed.some(file => files.has(file) || dirs.some(inputDir => isWithin(inputDir, file)))) {
+      selected.push(dir)
+    }
+  }
+
+  return selected
+}
+
+// Everything the findings of a stencil depend on, besides the CLI and the options
+async function collectStencilInputs(dir: string, context: ValidationContext) {
+  const graph = await resolveReferenceGraph(context.resolver, dir)
+  const config = await context.loadConfig(dir)
+  const referenced = graph.references.flatMap(reference => (reference.target ? [reference.target.dir] : []))
+
+  return {
+    dirs: [dir, ...referenced],
+    files: [join(context.resolver.stencilRoot, IGNORE_FILE_NAME), ...(config.path ? [config.path] : []), ...config.pluginFiles]
+  }
+}
+
+function toRealPath(path: string): string {
+  try {
+    return realpathSync(path)
+  } catch {
+    // Deleted files keep their path
+    return path
+  }
+}
+
+function isWithin(dir: string, path: string): boolean {
+  const fromDir = relative(dir, path)
+  return fromDir === '' || (fromDir !== '..' && !fromDir.startsWith(`..${sep}`) && !isAbsolute(fromDir))
+}
+
+export function createValidationContext(options: ValidateStencilOptions, stencilRoot: string): ValidationContext {
+  return {
+    resolver: createReferenceResolver(stencilRoot),
+    loadConfig: createConfigLoader(options.config),
+    server: options.remote ? createServerClient(toServerClientOptions(options)) : undefined,
+    cache: options.cache ? createValidationCache(resolve(process.cwd(), options.cache)) : undefined
+  }
+}
+
+/**
+ * Validates one stencil directory. Findings are returned in the summary
+ * rather than printed; the promise only rejects on fatal problems such as an
+ * invalid config file or an unusable server profile.
+ */
+export async function validateStencil(
+  path: string,
+  options: ValidateStencilOptions = {},
+  context = createValidationContext(options, resolve(process.cwd(), options.stencilRoot ?? '.'))
+): Promise<ValidationSummary> {
+  const stencilDir = resolve(process.cwd(), path)
+
+  // Fixes and server findings are not reproducible from the files, and partial runs are incomplete
+  const cache = options.fix || options.fixDryRun || context.server || context.checks ? undefined : context.cache
+  const cacheKey = cache && existsSync(join(stencilDir, SETTINGS_FILE_NAME))
+    ? await cache.key({
+      cliVersion: getCliVersion(),
+      options: { strict: Boolean(options.strict), ignore: options.ignore ?? [], stencilRoot: context.resolver.stencilRoot },
+      ...(await collectStencilInputs(stencilDir, context))
+    })
+    : undefined
+
+  let summary = cache && cacheKey ? cache.get(stencilDir, cacheKey) : null
+  if (!summary) {
+    summary = await checkStencil(stencilDir, options, context)
+    if (cache && cacheKey) cache.set(stencilDir, cacheKey, summary)
+  }
+
+  if (options.baseline) applyBaseline(summary, options.baseline)
+  return summary
+}
+
+async function checkStencil(path: string, options: ValidateStencilOptions, context: ValidationContext): Promise<ValidationSummary> {
+  const results: ValidationResult[] = []
+
+  // Check if path exists and is a directory
+  if (!existsSync(path)) {
+    results.push({
+      path,
+      rule: 'stencil/path-not-found',
+      type: 'error',
+      message: 'Path does not exist'
+    })
+    return createSummary(path, results, 0)
+  }
+
+  if (!statSync(path).isDirectory()) {
+    results.push({
+      path,
+      rule: 'stencil/not-a-directory',
+      type: 'error',
+      message: 'Path must be a directory'
+    })
+    return createSummary(path, results, 0)
+  }
+
+  // Check for stencil-settings.yml
+  const settingsFile = join(path, SETTINGS_FILE_NAME)
+  if (!existsSync(settingsFile)) {
+    results.push({
+      path: settingsFile,
+      rule: 'settings/missing-file',
+      type: 'error',
+      message: 'Required file stencil-settings.yml not found'
+    })
+    return createSummary(path, results, 0)
+  }
+
+  // Fix before validating so that the report reflects the fixed file
+  const fixReport = options.fix || options.fixDryRun ? await fixSettingsFile(path, settingsFile, options, context) : null
+
+  // Validate stencil-settings.yml
+  const settingsSource = await validateSettingsFile(settingsFile, results)
+
+  const referenceResolver = context.resolver
+
+  // Apply --ignore and .promarkerignore (workspace root and stencil directory)
+  const ignoreMatcher = createIgnoreMatcher([referenceResolver.stencilRoot, path], options.ignore)
+
+  // Count total files processed
+  const allFiles = await glob('**/*', { cwd: path, nodir: true, absolute: true })
+  const stencilFiles = allFiles.filter(file => !ignoreMatcher.ignores(file))
+  const totalFiles = stencilFiles.length
+
+  const config = await context.loadConfig(path)
+  assertKnownRules(config)
+
+  // Validate file references if settings are valid (reusing the already parsed file)
+  const settings: unknown = settingsSource ? settingsSource.document.toJS() : null
+  if (settings) {
+    const graph = await resolveReferenceGraph(referenceResolver, path)
+    const runs = (group: CheckGroup) => !context.checks || context.checks.has(group)
+    const relativeFiles = stencilFiles.map(file => relative(path, file).split(sep).join('/')).sort()
+
+    if (runs('files')) {
+      await validateFileReferences(path, settings, results, ignoreMatcher, settingsSource)
+      await validateOutputPaths(path, settings, graph, results, ignoreMatcher)
+    }
+    if (runs('references')) {
+      await validateReferenceIntegrity(graph, referenceResolver.stencilRoot, results, settingsSource)
+    }
+    if (runs('templates')) {
+      await validateTemplateVariables(path, settings, graph, results, ignoreMatcher, settingsSource, config.helpers)
+    }
+
+    // Custom rules from plugins listed in the config
+    if (runs('plugins') && typeof settings === 'object' && !Array.isArray(settings)) {
+      await runPluginRules(config.plugins, {
+        stencilDir: path,
+        settingsFile,
+        settings: settings as Record<string, unknown>,
+        files: relativeFiles,
+        locate: keyPath => settingsSource?.locate(keyPath)
+      }, results)
+    }
+
+    // Findings of the ProMarker server's validation endpoint (--remote)
+    if (context.server && runs('remote')) {
+      await runRemoteValidation(context.server, {
+        stencilDir: path,
+        settingsFile,
+        id: graph.root.id,
+        files: relativeFiles
+      }, results)
+    }
+  }
+
+  // Apply configured rule severities and inline suppressions
+  const ruleContext = { config, strict: options.strict }
+
+  const summary = createSummary(path, applyRules(results, ruleContext, settingsFile, settingsSource?.content), totalFiles)
+  if (fixReport) summary.fixes = fixReport
+  return summary
+}
+
+async function fixSettingsFile(
+  path: string,
+  settingsFile: string,
+  options: ValidateStencilOptions,
+  context: ValidationContext
+): Promise<FixReport | null> {
+  const content = readFileSync(settingsFile, 'utf-8')
+  const source = parseYamlSource(content)
+  // Files with syntax errors are left alone; the validation reports them
+  if (source.errors.length > 0) return null
+
+  // Only fix findings that would be reported (rule severity, --strict, suppressions)
+  const ruleContext = { config: await context.loadConfig(path), strict: options.strict }
+  const fixes = findSettingsFixes(path, source).filter(fix =>
+    applyRules([{ path: settingsFile, rule: fix.rule, type: 'error', message: fix.message, location: fix.location }], ruleContext, settingsFile, content).length > 0
+  )
+  if (fixes.length === 0) return null
+
+  const fixed = applySettingsFixes(content, fixes)
+  if (options.fix && !options.fixDryRun) {
+    writeFileSync(settingsFile, fixed)
+  }
+
+  return {
+    file: settingsFile,
+    applied: Boolean(options.fix && !options.fixDryRun),
+    fixes: fixes.map(({ rule, message, from, to, location }) => ({ rule, message, from, to, location })),
+    diff: formatFixDiff(relative(process.cwd(), settingsFile).split(sep).join('/'), content, fixed)
+  }
+}
+
+async function validateSettingsFile(settingsFile: string, results: ValidationResult[]): Promise<YamlSource | null> {
+  try {
+    const content = readFileSync(settingsFile, 'utf-8')
+    const source = parseYamlSource(content)
+
+    if (source.errors.length > 0) {
+      source.errors.forEach(error => {
+        results.push({
+          path: settingsFile,
+          rule: 'settings/yaml-syntax',
+          type: 'error',
+          message: 'Invalid YAML format',
+          details: error.message,
+          location: error.location
+        })
+      })
+      return null
+    }
+
+    // Schema validation
+    const validation = parseStencilSettings(source.document.toJS())
+    if (!validation.success) {
+      validation.issues.forEach(err => {
+        results.push({
+          path: settingsFile,
+          rule: 'settings/schema',
+          type: 'error',
+          message: `Schema validation failed: ${err.path.join('.')} - ${err.message}`,
+          location: source.locate(err.path)
+        })
+      })
+      return source
+    }
+
+    // Naming and documentation checks (off by default unless --strict or enabled in config)
+    await performStrictValidation(settingsFile, validation.data, results, source)
+
+    results.push({
+      path: settingsFile,
+      rule: 'settings/valid',
+      type: 'info',
+      message: 'Stencil settings file is valid'
+    })
+
+    return source
+  } catch (error) {
+    results.push({
+      path: settingsFile,
+      rule: 'settings/read-error',
+      type: 'error',
+      message: 'Failed to read stencil settings file',
+      details: error instanceof Error ? error.message : 'Unknown file reading error'
+    })
+    return null
+  }
+}
+
+async function performStrictValidation(settingsFile: string, settings: unknown, results: ValidationResult[], source: YamlSource) {
+  // Type guard to ensure settings is an object
+  if (typeof settings !== 'object' || settings === null) return
+
+  const settingsObj = settings as Record<string, unknown>
+
+  // Check ID naming convention
+  if (typeof settingsObj.id === 'string' && !STENCIL_ID_PATTERN.test(settingsObj.id)) {
+    results.push({
+      path: settingsFile,
+      rule: 'settings/id-format',
+      type: 'warning',
+      message: 'Stencil ID should only contain lowercase letters, numbers, hyphens, and underscores',
+      location: source.locate(['id'])
+    })
+  }
+
+  // Check version format (simple semver check)
+  if (typeof settingsObj.version === 'string' && !parseSemver(settingsObj.version)) {
+    results.push({
+      path: settingsFile,
+      rule: 'settings/version-format',
+      type: 'warning',
+      message: 'Version should follow semantic versioning format (x.y.z)',
+      location: source.locate(['version'])
+    })
+  }
+
+  // Check for description in strict mode
+  if (!settingsObj.description) {
+    results.push({
+      path: settingsFile,
+      rule: 'settings/description',
+      type: 'warning',
+      message: 'Description is recommended for better documentation'
+    })
+  }
+}
+
+async function validateFileReferences(
+  path: string,
+  settings: unknown,
+  results: ValidationResult[],
+  ignoreMatcher: IgnoreMatcher,
+  settingsSource: YamlSource | null
+) {
+  // Type guard to ensure settings is an object
+  if (typeof settings !== 'object' || settings === null) return
+
+  const settingsObj = settings as Record<string, unknown>
+  if (settingsObj.files && Array.isArray(settingsObj.files)) {
+    for (const [index, file] of settingsObj.files.entries()) {
+      if (typeof file === 'string') {
+        // Entries must not reach outside the stencil directory
+        if (isUnsafePath(file)) {
+          results.push({
+            path: join(path, SETTINGS_FILE_NAME),
+            rule: 'files/unsafe-path',
+            type: 'error',
+            message: `File entry points outside the stencil directory: ${file}`,
+            location: settingsSource?.locate(['files', index])
+          })
+          continue
+        }
+
+        const filePath = join(path, file)
+        if (ignoreMatcher.ignores(filePath)) continue
+
+        if (!existsSync(filePath)) {
+          results.push({
+            path: filePath,
+            rule: 'files/missing-reference',
+            type: 'error',
+            message: `Referenced file does not exist: ${file}`
+          })
+        } else {
+          results.push({
+            path: filePath,
+            rule: 'files/reference-exists',
+            type: 'info',
+            message: `Referenced file exists: ${file}`
+          })
+        }
+      }
+    }
+  }
+
+  // Check files/ directory exists if no explicit files list
+  if (!settingsObj.files) {
+    const filesDir = join(path, 'files')
+    if (existsSync(filesDir) && statSync(filesDir).isDirectory()) {
+      results.push({
+        path: filesDir,
+        rule: 'files/default-directory',
+        type: 'info',
+        message: 'Default files/ directory found'
+      })
+    } else {
+      results.push({
+        path: filesDir,
+        rule: 'files/missing-directory',
+        type: 'warning',
+        message: 'No files/ directory found and no explicit files list provided'
+      })
+    }
+  }
+}
+
+async function validateOutputPaths(
+  path: string,
+  settings: unknown,
+  graph: ReferenceGraph,
+  results: ValidationResult[],
+  ignoreMatcher: IgnoreMatcher
+) {
+  // Type guard to ensure settings is an object
+  if (typeof settings !== 'object' || settings === null) return
+
+  const sources = await listOutputSources(path, settings as Record<string, unknown>)
+
+  // Placeholders with a default render to it; the others are compared as written
+  const defaults = Object.fromEntries(
+    Object.entries(collectVariableDefinitions(graph))
+      .filter(([, definition]) => definition.default !== undefined)
+      .map(([name, definition]) => [name, definition.default])
+  )
+  const outputSources = sources.filter(source => !ignoreMatcher.ignores(join(path, source)))
+  results.push(...checkOutputPaths(path, outputSources, defaults))
+
+  // Symlinks are followed when the stencil is read, so they must stay inside it
+  const entries = (await glob('**/*', { cwd: path, dot: true, absolute: true })).filter(entry => !ignoreMatcher.ignores(entry))
+  for (const link of findExternalSymlinks(path, entries.sort())) {
+    results.push({
+      path: link.path,
+      rule: 'files/external-symlink',
+      type: 'error',
+      message: `Symlink points outside the stencil directory: ${relative(path, link.path)}`,
+      details: link.target ? `Target: ${link.target}` : 'The link target does not exist'
+    })
+  }
+}
+
+async function validateReferenceIntegrity(
+  graph: ReferenceGraph,
+  stencilRoot: string,
+  results: ValidationResult[],
+  settingsSource: YamlSource | null
+) {
+  // Check every extend/include reference reachable from this stencil
+  for (const reference of graph.references) {
+    if (!reference.target) {
+      results.push({
+        path: reference.from.settingsFile,
+        rule: 'references/unresolved',
+        type: 'error',
+        message: `Unresolved ${reference.kind} reference: ${reference.ref}`,
+        details: `No stencil found by path or id under ${stencilRoot}`,
+        location: reference.from === graph.root ? locateReference(reference, settingsSource) : undefined
+      })
+    } else if (reference.target.error) {
+      results.push({
+        path: reference.target.settingsFile,
+        rule: 'references/invalid-target',
+        type: 'error',
+        message: `Referenced stencil is invalid: ${reference.ref}`,
+        details: reference.target.error
+      })
+    } else {
+      results.push({
+        path: reference.from.settingsFile,
+        rule: 'references/resolved',
+        type: 'info',
+        message: `Resolved ${reference.kind} reference: ${reference.ref}`,
+        details: `Stencil found at: ${reference.target.dir}`
+      })
+    }
+  }
+
+  // Check for circular extend/include references
+  graph.cycles.forEach(cycle => {
+    results.push({
+      path: cycle[0].settingsFile,
+      rule: 'references/circular',
+      type: 'error',
+      message: `Circular reference detected: ${cycle.map(s => describeStencil(s, stencilRoot)).join(' → ')}`
+    })
+  })
+
+  // Report the full inheritance chain
+  if (graph.extendChain.length > 1) {
+    results.push({
+      path: graph.root.settingsFile,
+      rule: 'references/inheritance-chain',
+      type: 'info',
+      message: `Inheritance chain: ${graph.extendChain.map(s => describeStencil(s, stencilRoot)).join(' → ')}`
+    })
+  }
+}
+
+function locateReference(reference: StencilReference, settingsSource: YamlSource | null) {
+  if (reference.kind === 'extend') return settingsSource?.locate(['extend'])
+
+  const include = reference.from.settings?.include
+  const index = Array.isArray(include) ? include.indexOf(reference.ref) : -1
+  return settingsSource?.locate(index === -1 ? ['include'] : ['include', index])
+}
+
+async function validateTemplateVariables(
+  path: string,
+  settings: unknown,
+  graph: ReferenceGraph,
+  results: ValidationResult[],
+  ignoreMatcher: IgnoreMatcher,
+  settingsSource: YamlSource | null,
+  serverHelpers: string[] = []
+) {
+  // Type guard to ensure settings is an object
+  if (typeof settings !== 'object' || settings === null) return
+
+  const settingsObj = settings as Record<string, unknown>
+  const knownHelpers = new Set([...BUILT_IN_HELPERS, ...serverHelpers])
+  const ownVariables = getDeclaredVariableNames(settingsObj.variables)
+
+  // Variables declared by extended stencils are available to this stencil too
+  const declared = new Set(ownVariables)
+  graph.extendChain.slice(1).forEach(stencil => {
+    getDeclaredVariableNames(stencil.settings?.variables).forEach(name => declared.add(name))
+  })
+
+  const templates = await findTemplateFiles(path, settingsObj, ignoreMatcher)
+  const used = new Set<string>()
+
+  for (const template of templates) {
+    const relativePath = relative(path, template)
+
+    // Placeholders in the template path are rendered as well
+    const pathScan = collectTemplateVariables(relativePath, knownHelpers)
+    const contentScan = collectTemplateVariables(readFileSync(template, 'utf-8'), knownHelpers)
+    if (contentScan.error) {
+      results.push({
+        path: template,
+        rule: 'templates/parse-error',
+        type: 'error',
+        message: `Template could not be parsed: ${relativePath}`,
+        details: contentScan.error,
+        location: contentScan.errorLocation
+      })
+    }
+
+    const reported = new Set<string>()
+    const usages = [
+      ...pathScan.usages.map(usage => ({ ...usage, inPath: true })),
+      ...contentScan.usages.map(usage => ({ ...usage, inPath: false }))
+    ]
+    for (const usage of usages) {
+      // `{{helper}}` without arguments calls the helper instead of reading a variable
+      if (knownHelpers.has(usage.name)) continue
+      used.add(usage.name)
+      if (declared.has(usage.name) || reported.has(usage.name)) continue
+
+      reported.add(usage.name)
+      results.push({
+        path: template,
+        rule: 'variables/undeclared',
+        type: 'error',
+        message: `Undeclared template variable: ${usage.name}`,
+        details: usage.inPath ? `Used in the template path ${relativePath}` : undefined,
+        location: usage.inPath
+          ? undefined
+          : {
+            start: { line: usage.line, column: usage.column },
+            end: { line: usage.line, column: usage.column + usage.name.length }
+          }
+      })
+    }
+
+    // Generation fails on the server when a helper is not registered there
+    const reportedHelpers = new Set<string>()
+    for (const helper of [...pathScan.helpers, ...contentScan.helpers]) {
+      if (knownHelpers.has(helper.name) || reportedHelpers.has(helper.name)) continue
+
+      reportedHelpers.add(helper.name)
+      results.push({
+        path: template,
+        rule: 'templates/unknown-helper',
+        type: 'warning',
+        message: `Unknown template helper: ${helper.name}`,
+        details: 'Add it to "helpers" in promarker.config if the ProMarker server provides it',
+        location: pathScan.helpers.includes(helper)
+          ? undefined
+          : {
+            start: { line: helper.line, column: helper.column },
+            end: { line: helper.line, column: helper.column + helper.name.length }
+          }
+      })
+    }
+  }
+
+  // Unused declarations are only meaningful when the stencil has templates
+  if (templates.length === 0) return
+
+  ownVariables
+    .filter(name => !used.has(name))
+    .forEach(name => {
+      results.push({
+        path: join(path, SETTINGS_FILE_NAME),
+        rule: 'variables/unused',
+        type: 'warning',
+        message: `Declared variable is never used: ${name}`,
+        location: settingsSource?.locate(['variables', name])
+      })
+    })
+}
+
+async function findTemplateFiles(path: string, settingsObj: Record<string, unknown>, ignoreMatcher: IgnoreMatcher): Promise<string[]> {
+  const templates = new Set(await glob('files/**/*.hbs', { cwd: path, nodir: true, absolute: true }))
+
+  if (Array.isArray(settingsObj.files)) {
+    settingsObj.files.forEach((file: unknown) => {
+      // Unsafe entries are reported as files/unsafe-path and never opened
+      if (typeof file === 'string' && file.endsWith('.hbs') && !isUnsafePath(file)) {
+        const filePath = join(path, file)
+        if (existsSync(filePath) && statSync(filePath).isFile()) {
+          templates.add(filePath)
+        }
+      }
+    })
+  }
+
+  return [...templates].filter(template => !ignoreMatcher.ignores(template)).sort()
+}
+
+function getDeclaredVariableNames(variables: unknown): string[] {
+  if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) return []
+  return Object.keys(variables)
+}
+
+function createSummary(path: string, results: ValidationResult[], totalFiles: number): ValidationSummary {
+  const errors = results.filter(r => r.type === 'error')
+  const warnings = results.filter(r => r.type === 'warning')
+  const info = results.filter(r => r.type === 'info')
+
+  return {
+    success: errors.length === 0,
+    path,
+    errors,
+    warnings,
+    info,
+    totalFiles,
+    validatedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from 'fs'
+import { resolve } from 'path'
+import { parse as parseYaml } from 'yaml'
+import type { ReferenceGraph } from './reference-resolver.js'
+import { checkVariableValue, VariableDefinitionSchema, type VariableDefinition } from './stencil-settings.js'
+import type { ValidationResult } from './types.js'
+
+export interface VariableValueSource {
+  // File the values were read from, or a label such as `--var`
+  path: string
+  values: Record<string, unknown>
+}
+
+export interface ResolvedVariableValues {
+  values: Record<string, unknown>
+  results: ValidationResult[]
+}
+
+/**
+ * Collects the variable definitions of a stencil including the ones it
+ * inherits through `extend`. Definitions closer to the stencil win.
+ */
+export function collectVariableDefinitions(graph: ReferenceGraph): Record<string, VariableDefinition> {
+  const definitions: Record<string, VariableDefinition> = {}
+
+  for (const stencil of [...graph.extendChain].reverse()) {
+    const variables = stencil.settings?.variables
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) continue
+
+    for (const [name, definition] of Object.entries(variables)) {
+      const validation = VariableDefinitionSchema.safeParse(definition)
+      if (validation.success) definitions[name] = validation.data
+    }
+  }
+
+  return definitions
+}
+
+/**
+ * Parses `--var key=value` assignments. Values are converted to the declared
+ * type of the variable (`port=8080` becomes a number for a number variable).
+ */
+export function parseVariableAssignments(
+  assignments: string[],
+  definitions: Record<string, VariableDefinition>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=')
+    if (separator <= 0) {
+      throw new Error(`Invalid --var ${assignment}: expected key=value`)
+    }
+
+    const name = assignment.slice(0, separator)
+    values[name] = coerceValue(definitions[name], assignment.slice(separator + 1))
+  }
+
+  return values
+}
+
+/**
+ * Reads variable values from a YAML or JSON file (relative to the current
+ * directory).
+ */
+export function readVariablesFile(varsFile: string): Record<string, unknown> {
+  const file = resolve(process.cwd(), varsFile)
+  if (!existsSync(file)) {
+    throw new Error(`Variables file not found: ${varsFile}`)
+  }
+
+  let values: unknown
+  try {
+    // JSON is valid YAML, so one parser covers .yml, .yaml and .json
+    values = parseYaml(readFileSync(file, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Failed to parse variables file ${varsFile}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (values === null || values === undefined) return {}
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Variables file ${varsFile} must contain a mapping of variable names to values`)
+  }
+  return values as Record<string, unknown>
+}
+
+/**
+ * Merges value sources (later sources win), fills in defaults and checks the
+ * result against the variable definitions.
+ */
+export function resolveVariableValues(
+  definitions: Record<string, VariableDefinition>,
+  sources: VariableValueSource[],
+  settingsFile: string
+): ResolvedVariableValues {
+  const values: Record<string, unknown> = {}
+  const origins: Record<string, string> = {}
+  const results: ValidationResult[] = []
+
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source.values)) {
+      values[name] = value
+      origins[name] = source.path
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    const definition = definitions[name]
+    if (!definition) {
+      results.push({
+        path: origins[name],
+        rule: 'values/unknown',
+        type: 'error',
+        message: `Value given for undeclared variable: ${name}`
+      })
+      continue
+    }
+
+    const problem = checkVariableValue(definition, value)
+    if (problem) {
+      results.push({
+        path: origins[name],
+        rule: 'values/invalid',
+        type: 'error',
+        message: `Invalid value for variable ${name}: ${problem}`
+      })
+    }
+  }
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (name in values) continue
+
+    if (definition.default !== undefined) {
+      values[name] = definition.default
+    } else if (definition.required) {
+      results.push({
+        path: settingsFile,
+        rule: 'values/missing-required',
+        type: 'error',
+        message: `Missing value for required variable: ${name}`,
+        details: definition.description
+      })
+    }
+  }
+
+  return { values, results }
+}
+
+function coerceValue(definition: VariableDefinition | undefined, raw: string): unknown {
+  if (!definition || definition.type === 'string') return raw
+  if (definition.type === 'enum' && definition.values?.includes(raw)) return raw
+
+  if (definition.type === 'array') {
+    if (raw.trim().startsWith('[')) return parseScalar(raw)
+    return raw.split(',').map(item => (definition.items && definition.items !== 'string' ? parseScalar(item.trim()) : item.trim()))
+  }
+
+  return parseScalar(raw)
+}
+
+// Reads a value the way YAML would (`8080` → number, `true` → boolean)
+function parseScalar(raw: string): unknown {
+  try {
+    return parseYaml(raw)
+  } catch {
+    return raw
+  }
+}
@@ -0,0 +1,95 @@
+import { basename, relative, resolve, sep } from 'path'
+import { IGNORE_FILE_NAME } from './ignore-rules.js'
+import { getCheckGroup, type CheckGroup } from './rules.js'
+import type { ValidationResult, ValidationSummary } from './types.js'
+
+export interface WatchScope {
+  stencilDir: string
+  settingsFile: string
+  // stencil-settings.yml files of stencils reached through extend/include
+  referencedSettingsFiles: string[]
+  configFile?: string
+}
+
+export interface ResultDiff {
+  added: ValidationResult[]
+  fixed: ValidationResult[]
+}
+
+/**
+ * Works out which check groups have to run again after the given files
+ * changed. Returns undefined when everything has to be re-validated.
+ */
+export function affectedChecks(changedPaths: string[], scope: WatchScope): Set<CheckGroup> | undefined {
+  const checks = new Set<CheckGroup>(['settings'])
+
+  for (const changed of changedPaths.map(path => resolve(path))) {
+    if (changed === scope.settingsFile || changed === scope.configFile || basename(changed) === IGNORE_FILE_NAME) {
+      return undefined
+    }
+
+    if (scope.referencedSettingsFiles.includes(changed)) {
+      // Referenced stencils feed the reference checks and inherited variables,
+      // whose defaults also name the output files
+      checks.add('references')
+      checks.add('templates')
+      checks.add('files')
+      continue
+    }
+
+    const relativePath = relative(scope.stencilDir, changed)
+    if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${sep}`)) return undefined
+
+    checks.add('files')
+    checks.add('templates')
+    checks.add('plugins')
+    checks.add('remote')
+  }
+
+  return checks
+}
+
+/**
+ * Combines the previous summary with a partial re-run: results of check
+ * groups that were re-run come from the new summary, the rest are kept.
+ */
+export function mergeSummaries(
+  previous: ValidationSummary,
+  next: ValidationSummary,
+  checks: Set<CheckGroup> | undefined
+): ValidationSummary {
+  if (!checks) return next
+
+  const rerun = (result: ValidationResult) => checks.has(getCheckGroup(result.rule))
+  const merge = (kept: ValidationResult[], fresh: ValidationResult[]) => [
+    ...kept.filter(result => !rerun(result)),
+    ...fresh.filter(rerun)
+  ]
+
+  const errors = merge(previous.errors, next.errors)
+  return {
+    ...next,
+    success: errors.length === 0,
+    errors,
+    warnings: merge(previous.warnings, next.warnings),
+    info: merge(previous.info, next.info)
+  }
+}
+
+/**
+ * Lists the errors and warnings that appeared or disappeared between two
+ * runs. Results are matched by rule, file and message so that edits which
+ * only move a finding to another line do not show up as changes.
+ */
+export function diffResults(previous: ValidationSummary, next: ValidationSummary): ResultDiff {
+  const findings = (summary: ValidationSummary) => [...summary.errors, ...summary.warnings]
+  const key = (result: ValidationResult) => [result.rule, result.path, result.message].join('\n')
+
+  const previousKeys = new Set(findings(previous).map(key))
+  const nextKeys = new Set(findings(next).map(key))
+
+  return {
+    added: findings(next).filter(result => !previousKeys.has(key(result))),
+    fixed: findings(previous).filter(result => !nextKeys.has(key(result)))
+  }
+}
@@ -0,0 +1,45 @@
+import { dirname } from 'path'
+import { glob } from 'glob'
+import { SETTINGS_FILE_NAME } from './stencil-settings.js'
+
+export const DEFAULT_CONCURRENCY = 8
+
+/**
+ * Finds every stencil directory (a directory holding stencil-settings.yml)
+ * under the given workspace root, sorted by path. `maxDepth` limits how many
+ * directory levels below the root are searched.
+ */
+export async function discoverStencils(root: string, maxDepth?: number): Promise<string[]> {
+  const settingsFiles = await glob(`**/${SETTINGS_FILE_NAME}`, {
+    cwd: root,
+    ignore: ['**/node_modules/**'],
+    absolute: true,
+    // glob counts the settings file itself as a level
+    maxDepth: maxDepth === undefined ? undefined : maxDepth + 1
+  })
+  return settingsFiles.map(file => dirname(file)).sort()
+}
+
+/**
+ * Maps items with an async function while keeping at most `concurrency`
+ * calls in flight. Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  await Promise.all(workers)
+  return results
+}
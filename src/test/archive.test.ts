@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { gzipSync } from 'zlib'
+import { extractArchive, readArchive } from '../lib/archive.js'
+
+// Builds a minimal ustar archive
+function tar(entries: { name: string; content?: string; type?: string; link?: string }[]): Buffer {
+  const blocks: Buffer[] = []
+  for (const entry of entries) {
+    const content = Buffer.from(entry.content ?? '')
+    const header = Buffer.alloc(512)
+    header.write(entry.name, 0)
+    header.write('0000644\0', 100)
+    header.write(content.length.toString(8).padStart(11, '0') + '\0', 124)
+    header.write(entry.type ?? '0', 156)
+    header.write(entry.link ?? '', 157)
+    header.write('ustar\0', 257)
+    blocks.push(header, content, Buffer.alloc((512 - (content.length % 512)) % 512))
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)])
+}
+
+describe('Archive', () => {
+  let outDir: string
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'promarker-archive-'))
+  })
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true })
+  })
+
+  it('should read regular files from plain and gzipped tar archives', () => {
+    const archive = tar([
+      { name: 'src/', type: '5' },
+      { name: 'src/app.ts', content: 'export {}\n' },
+      { name: './README.md', content: '# App\n' }
+    ])
+
+    for (const data of [archive, gzipSync(archive)]) {
+      const entries = readArchive(data)
+      expect(entries.map(entry => [entry.path, entry.content.toString()])).toEqual([
+        ['src/app.ts', 'export {}\n'],
+        ['README.md', '# App\n']
+      ])
+    }
+  })
+
+  it('should use pax paths and reject unsafe entries', () => {
+    const longPath = `${'nested/'.repeat(20)}file.txt`
+    const pax = `${longPath.length + 7 + String(longPath.length).length} path=${longPath}\n`
+    expect(readArchive(tar([{ name: 'PaxHeader', type: 'x', content: pax }, { name: 'short', content: 'x' }]))[0].path).toBe(longPath)
+
+    expect(() => readArchive(tar([{ name: '../escape.txt', content: 'x' }]))).toThrow('unsafe path')
+    expect(() => readArchive(tar([{ name: '/etc/passwd', content: 'x' }]))).toThrow('unsafe path')
+    expect(() => readArchive(tar([{ name: 'link', type: '2' }]))).toThrow('is a link')
+  })
+
+  it('should return symlinks as files holding their target when asked to', () => {
+    const archive = tar([{ name: 'files/INDEX.md', type: '2', link: 'README.md' }])
+
+    expect(readArchive(archive, { symlinksAsFiles: true })).toEqual([
+      { path: 'files/INDEX.md', content: Buffer.from('README.md'), mode: 0o644 }
+    ])
+    expect(() => readArchive(tar([{ name: 'hard', type: '1', link: 'files/INDEX.md' }]), { symlinksAsFiles: true })).toThrow('is a link')
+  })
+
+  it('should write files and return a manifest', () => {
+    const manifest = extractArchive(readArchive(tar([{ name: 'src/app.ts', content: 'export {}\n' }])), outDir)
+
+    expect(readFileSync(join(outDir, 'src/app.ts'), 'utf-8')).toBe('export {}\n')
+    expect(manifest).toEqual([{ path: 'src/app.ts', size: 10, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }])
+  })
+
+  it('should refuse to overwrite existing files unless forced', () => {
+    writeFileSync(join(outDir, 'README.md'), 'original')
+    const entries = readArchive(tar([{ name: 'new.txt', content: 'new' }, { name: 'README.md', content: 'generated' }]))
+
+    expect(() => extractArchive(entries, outDir)).toThrow('Refusing to overwrite existing files (use --force): README.md')
+    expect(existsSync(join(outDir, 'new.txt'))).toBe(false)
+
+    extractArchive(entries, outDir, { force: true })
+    expect(readFileSync(join(outDir, 'README.md'), 'utf-8')).toBe('generated')
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { applyBaseline, createBaselineEntries, loadBaseline, saveBaseline, updateBaseline } from '../lib/baseline.js'
+import type { ValidationResult, ValidationSummary } from '../lib/types.js'
+
+const summaryOf = (path: string, results: ValidationResult[]): ValidationSummary => ({
+  success: !results.some(result => result.type === 'error'),
+  path,
+  errors: results.filter(result => result.type === 'error'),
+  warnings: results.filter(result => result.type === 'warning'),
+  info: [],
+  totalFiles: 1,
+  validatedAt: new Date().toISOString()
+})
+
+describe('Baseline', () => {
+  let dir: string
+  let stencilDir: string
+  let settingsFile: string
+  let baselineFile: string
+
+  const unused = (name: string, line: number): ValidationResult => ({
+    path: settingsFile,
+    rule: 'variables/unused',
+    type: 'warning',
+    message: `Declared variable is never used: ${name}`,
+    location: { start: { line, column: 3 }, end: { line, column: 3 + name.length } }
+  })
+  const undeclared = (path: string): ValidationResult => ({
+    path,
+    rule: 'variables/undeclared',
+    type: 'error',
+    message: 'Undeclared template variable: missing'
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-baseline-'))
+    stencilDir = join(dir, 'stencils/orders')
+    settingsFile = join(stencilDir, 'stencil-settings.yml')
+    baselineFile = join(dir, '.promarker-baseline.json')
+    mkdirSync(stencilDir, { recursive: true })
+    writeFileSync(settingsFile, 'variables:\n  first:\n    type: string\n  second:\n    type: string\n')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should record findings relative to the baseline file', () => {
+    const [entry] = createBaselineEntries(summaryOf(stencilDir, [unused('first', 2)]), baselineFile)
+
+    expect(entry).toEqual({
+      stencil: 'stencils/orders',
+      rule: 'variables/unused',
+      file: 'stencils/orders/stencil-settings.yml',
+      fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      message: 'Declared variable is never used: first'
+    })
+  })
+
+  it('should hide known findings after lines moved and list fixed ones', () => {
+    const baseline = updateBaseline(null, baselineFile, [summaryOf(stencilDir, [unused('first', 2), unused('second', 4)])])
+
+    // Two lines inserted above; "second" is now used
+    writeFileSync(settingsFile, '# Orders\n\nvariables:\n  first:\n    type: string\n  second:\n    type: string\n  third:\n    type: string\n')
+    const summary = summaryOf(stencilDir, [unused('first', 4), unused('third', 8), undeclared(settingsFile)])
+    applyBaseline(summary, baseline)
+
+    expect(summary.success).toBe(false)
+    expect(summary.warnings.map(result => result.message)).toEqual(['Declared variable is never used: third'])
+    expect(summary.errors).toHaveLength(1)
+    expect(summary.baseline).toMatchObject({
+      file: baselineFile,
+      matched: 1,
+      fixed: [{ message: 'Declared variable is never used: second' }]
+    })
+  })
+
+  it('should need one entry per repeated finding', () => {
+    const error = undeclared(settingsFile)
+    const baseline = updateBaseline(null, baselineFile, [summaryOf(stencilDir, [error])])
+    const summary = summaryOf(stencilDir, [error, error])
+    applyBaseline(summary, baseline)
+
+    expect(summary.errors).toHaveLength(1)
+    expect(summary.baseline?.matched).toBe(1)
+  })
+
+  it('should keep entries of stencils that were not validated', () => {
+    const otherDir = join(dir, 'stencils/billing')
+    const initial = updateBaseline(null, baselineFile, [
+      summaryOf(stencilDir, [unused('first', 2)]),
+      summaryOf(otherDir, [undeclared(join(otherDir, 'stencil-settings.yml'))])
+    ])
+    const updated = updateBaseline(initial, baselineFile, [summaryOf(stencilDir, [])])
+
+    expect(updated.entries.map(entry => entry.stencil)).toEqual(['stencils/billing'])
+  })
+
+  it('should save sorted entries and load them back', () => {
+    saveBaseline(updateBaseline(null, baselineFile, [summaryOf(stencilDir, [unused('second', 4), unused('first', 2)])]))
+
+    expect(JSON.parse(readFileSync(baselineFile, 'utf-8')).version).toBe(1)
+    expect(loadBaseline(baselineFile)?.entries.map(entry => entry.message)).toEqual([
+      'Declared variable is never used: first',
+      'Declared variable is never used: second'
+    ])
+    expect(loadBaseline(join(dir, 'missing.json'))).toBeNull()
+
+    writeFileSync(baselineFile, '{"entries": []}')
+    expect(() => loadBaseline(baselineFile)).toThrow('Invalid baseline file')
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { buildCatalog, CatalogSchema, formatCatalogMarkdown, toCatalogJsonSchema } from '../lib/catalog.js'
+import { catalogCommand } from '../commands/catalog.js'
+import { schemaCommand } from '../commands/schema.js'
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+
+describe('Stencil catalog', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-catalog-'))
+    mkdirSync(join(dir, 'orders/files/src'), { recursive: true })
+    writeFileSync(join(dir, 'orders/stencil-settings.yml'), `id: orders
+name: Orders
+version: 1.2.0
+type: service
+description: Order service | REST
+variables:
+  serviceName:
+    type: string
+    required: true
+    pattern: "^[a-z-]+$"
+    description: Name of the service
+  region:
+    type: enum
+    values: [eu, us]
+    default: eu
+`)
+    writeFileSync(join(dir, 'orders/files/README.md.hbs'), '# {{serviceName}} ({{region}})\n')
+    writeFileSync(join(dir, 'orders/files/src/{{serviceName}}.ts.hbs'), 'export const region = "{{region}}"\n')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should index metadata, variables and files of each stencil', async () => {
+    const catalog = await buildCatalog(dir)
+
+    expect(catalog).toMatchObject({ schemaVersion: 1, generator: expect.stringMatching(/^@promarker\/cli /) })
+    expect(catalog.stencils).toEqual([{
+      path: 'orders',
+      id: 'orders',
+      name: 'Orders',
+      version: '1.2.0',
+      type: 'service',
+      description: 'Order service | REST',
+      variables: [
+        { name: 'serviceName', type: 'string', required: true, pattern: '^[a-z-]+$', description: 'Name of the service' },
+        { name: 'region', type: 'enum', required: false, default: 'eu', values: ['eu', 'us'] }
+      ],
+      files: ['files/README.md.hbs', 'files/src/{{serviceName}}.ts.hbs'],
+      extend: null,
+      include: [],
+      usedBy: [],
+      validation: { status: 'valid', errors: 0, warnings: 0 }
+    }])
+  })
+
+  it('should record the extend/include graph and validation status', async () => {
+    const catalog = await buildCatalog(join(fixtures, 'references'))
+    const entry = (path: string) => catalog.stencils.find(stencil => stencil.path === path)
+
+    expect(catalog.stencils.map(stencil => stencil.path)).toEqual([
+      'base', 'broken', 'cycle-a', 'cycle-b', 'invalid-base', 'service', 'shared/common'
+    ])
+    expect(entry('service')).toMatchObject({
+      extend: { ref: '../base', path: 'base', id: 'base-stencil' },
+      include: [{ ref: 'common-parts', path: 'shared/common', id: 'common-parts' }],
+      validation: { status: 'valid' }
+    })
+    expect(entry('base')?.usedBy).toEqual(['service'])
+    expect(entry('broken')).toMatchObject({ extend: { ref: 'missing-base' }, validation: { status: 'invalid' } })
+    expect(entry('broken')?.extend).not.toHaveProperty('path')
+  })
+
+  it('should render markdown documentation', async () => {
+    const markdown = formatCatalogMarkdown(await buildCatalog(join(fixtures, 'references')))
+
+    expect(markdown).toMatch(/^# Stencil Catalog\n/)
+    expect(markdown).toContain('| [Service Stencil](#stencil-service) | `service-stencil` | 1.0.0 | service | ✅ valid |  |')
+    expect(markdown).toContain('<a id="stencil-shared-common"></a>')
+    expect(markdown).toContain('- **Extends**: [Base Stencil](#stencil-base)')
+    expect(markdown).toContain('- **Extends**: `missing-base` (unresolved)')
+  })
+
+  it('should escape table cells and describe variables', async () => {
+    const markdown = formatCatalogMarkdown(await buildCatalog(dir))
+
+    expect(markdown).toContain('| Order service \\| REST |')
+    expect(markdown).toContain('| `region` | enum (eu, us) | no | `"eu"` |  |')
+    expect(markdown).toContain('- `files/src/{{serviceName}}.ts.hbs`')
+  })
+
+  it('should publish a JSON Schema that matches the catalog', async () => {
+    const schema = toCatalogJsonSchema()
+    expect(schema).toMatchObject({ $schema: 'http://json-schema.org/draft-07/schema#', type: 'object' })
+    expect(schema.required).toEqual(['schemaVersion', 'generator', 'generatedAt', 'stencils'])
+
+    const log = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    expect(await schemaCommand({ format: 'json-schema', document: 'catalog' })).toBe(0)
+    expect(JSON.parse(String(log.mock.calls[0][0]))).toEqual(schema)
+
+    expect(CatalogSchema.safeParse({ ...(await buildCatalog(dir)), schemaVersion: 2 }).success).toBe(false)
+  })
+
+  it('should write the catalog to a file', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const output = join(dir, 'docs/catalog.md')
+
+    expect(await catalogCommand(dir, { format: 'markdown', output })).toBe(0)
+    expect(readFileSync(output, 'utf8')).toContain('## Orders')
+    expect(error.mock.calls[0][0]).toContain('Catalog of 1 stencils written to')
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { DOCTOR_CHECKS, runDoctorChecks, type DoctorContext } from '../lib/doctor-checks.js'
+import { doctorCommand } from '../commands/doctor.js'
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+
+// Local mock of the ProMarker server's status endpoint
+let server: Server
+let baseUrl: string
+let serverVersion: string | undefined
+
+beforeAll(async () => {
+  server = createServer((_req, res) => {
+    res.writeHead(200, { 'content-type': 'application/json' })
+    res.end(JSON.stringify({ status: 'UP', version: serverVersion }))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('Doctor checks', () => {
+  let dir: string
+  const contextFor = (cwd: string, env: Record<string, string | undefined> = {}): DoctorContext => ({
+    cwd,
+    options: {},
+    env: { XDG_CONFIG_HOME: join(dir, 'config'), PATH: '', ...env }
+  })
+  const run = (id: string, context: DoctorContext) =>
+    runDoctorChecks(context, DOCTOR_CHECKS.filter(check => check.id === id))
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-doctor-'))
+    serverVersion = '1.4.0'
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should report a throwing check as failed and keep running the others', async () => {
+    const results = await runDoctorChecks(contextFor(dir), [
+      { id: 'broken', run: async () => { throw new Error('boom') } },
+      { id: 'custom', run: async (_context, checks) => { checks.push({ name: 'Custom', status: 'pass', message: 'ok' }) } }
+    ])
+
+    expect(results).toEqual([
+      { check: 'broken', name: 'broken', status: 'fail', message: 'Check could not be completed', details: 'boom' },
+      { check: 'custom', name: 'Custom', status: 'pass', message: 'ok' }
+    ])
+  })
+
+  it('should find the promarker command without shelling out', async () => {
+    const binDir = join(dir, 'bin')
+    mkdirSync(binDir)
+    writeFileSync(join(binDir, 'promarker'), '#!/bin/sh\n')
+    chmodSync(join(binDir, 'promarker'), 0o755)
+
+    const found = await run('cli', contextFor(dir, { PATH: binDir }))
+    const missing = await run('cli', contextFor(dir))
+
+    expect(found.find(result => result.name === 'Command Availability')).toMatchObject({ status: 'pass', details: `Location: ${join(binDir, 'promarker')}` })
+    expect(missing.find(result => result.name === 'Command Availability')?.status).toBe('warn')
+  })
+
+  it('should load the discovered config file', async () => {
+    const [valid] = await run('config', contextFor(join(fixtures, 'helpers')))
+    expect(valid).toMatchObject({ status: 'pass', message: 'Using promarker.config.yml', details: '0 rule settings, 0 plugins, 1 helpers' })
+
+    writeFileSync(join(dir, 'promarker.config.yml'), 'rules:\n  no/such-rule: error\n')
+    const [invalid] = await run('config', contextFor(dir))
+    expect(invalid).toMatchObject({ status: 'fail', message: 'Invalid config file: promarker.config.yml' })
+  })
+
+  it('should check the stencil workspace layout', async () => {
+    const workspace = await run('workspace', contextFor(join(fixtures, 'workspace')))
+    expect(workspace).toEqual([expect.objectContaining({ name: 'Stencil Workspace', status: 'pass', message: '2 stencils found' })])
+
+    mkdirSync(join(dir, 'broken'))
+    writeFileSync(join(dir, 'broken/stencil-settings.yml'), 'id: broken\n')
+    const broken = await run('workspace', contextFor(dir))
+    expect(broken.map(result => [result.name, result.status])).toEqual([
+      ['Stencil Workspace', 'pass'],
+      ['Stencil Settings', 'warn'],
+      ['Files Directory', 'warn']
+    ])
+
+    mkdirSync(join(dir, 'empty'))
+    const empty = await run('workspace', contextFor(join(dir, 'empty')))
+    expect(empty[0]?.status).toBe('warn')
+  })
+
+  it('should only search the usual stencil depth outside a workspace', async () => {
+    mkdirSync(join(dir, 'a/b/c/d'), { recursive: true })
+    writeFileSync(join(dir, 'a/b/c/d/stencil-settings.yml'), 'id: deep\n')
+
+    const outside = await run('workspace', contextFor(dir))
+    expect(outside).toEqual([expect.objectContaining({ status: 'warn', details: expect.stringContaining('Searched 3 directory levels') })])
+
+    writeFileSync(join(dir, 'promarker.config.yml'), 'rules: {}\n')
+    const inside = await run('workspace', contextFor(dir))
+    expect(inside[0]).toMatchObject({ status: 'pass', message: '1 stencils found' })
+  })
+
+  it('should check that the cache directory can be written', async () => {
+    const [creatable] = await run('cache', contextFor(dir))
+    expect(creatable).toMatchObject({ status: 'pass', message: 'Cache directory can be created', details: join(dir, '.promarker-cache') })
+
+    writeFileSync(join(dir, 'cache-file'), '')
+    const [notDirectory] = await run('cache', { ...contextFor(dir), options: { cacheLocation: 'cache-file' } })
+    expect(notDirectory).toMatchObject({ status: 'warn', message: 'Cache location is not a directory' })
+  })
+
+  it('should check server reachability and version compatibility', async () => {
+    const compatible = await run('server', contextFor(dir, { PROMARKER_URL: baseUrl }))
+    expect(compatible.map(result => result.status)).toEqual(['pass', 'pass'])
+
+    serverVersion = '2.0.0'
+    const [, incompatible] = await run('server', contextFor(dir, { PROMARKER_URL: baseUrl }))
+    expect(incompatible).toMatchObject({ status: 'fail', message: 'Server version 2.0.0 is not supported' })
+
+    serverVersion = undefined
+    const [, unknown] = await run('server', contextFor(dir, { PROMARKER_URL: baseUrl }))
+    expect(unknown).toMatchObject({ status: 'warn', message: 'Server did not report its version' })
+
+    // Nothing listens on port 9 (discard) locally
+    const unreachable = await run('server', contextFor(dir, { PROMARKER_URL: 'http://127.0.0.1:9' }))
+    expect(unreachable).toEqual([expect.objectContaining({ status: 'warn', message: 'Not reachable at http://127.0.0.1:9' })])
+  })
+
+  it('should print JSON and set the exit code from the check statuses', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(process, 'cwd').mockReturnValue(join(fixtures, 'workspace'))
+    vi.stubEnv('XDG_CONFIG_HOME', join(dir, 'config'))
+    vi.stubEnv('PROMARKER_URL', baseUrl)
+
+    try {
+      const exitCode = await doctorCommand({ format: 'json', failOn: 'error' })
+      const report = JSON.parse(log.mock.calls[0][0])
+
+      expect(report.success).toBe(true)
+      expect(report.checks.map((check: { check: string }) => check.check)).toEqual(expect.arrayContaining(['node', 'config', 'server']))
+      expect(report.summary.failed).toBe(0)
+      expect(exitCode).toBe(0)
+      expect(await doctorCommand({ format: 'json', failOn: 'warn' })).toBe(report.summary.warnings > 0 ? 1 : 0)
+
+      serverVersion = '2.0.0'
+      expect(await doctorCommand({ format: 'json', failOn: 'none' })).toBe(2)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+})
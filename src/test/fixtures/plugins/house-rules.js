@@ -0,0 +1,23 @@
+export default {
+  name: 'house-rules',
+  rules: [
+    {
+      id: 'house/require-owner',
+      description: 'Stencils must declare metadata.owner',
+      check({ settings, report, locate }) {
+        if (!settings.metadata?.owner) {
+          report({ message: 'metadata.owner is required', location: locate(['metadata']) })
+        }
+      }
+    },
+    {
+      id: 'house/banned-type',
+      description: 'Legacy stencil types must not be used',
+      check({ settings, report, locate }) {
+        if (settings.type === 'legacy') {
+          report({ message: 'Stencil type "legacy" is banned', location: locate(['type']) })
+        }
+      }
+    }
+  ]
+}
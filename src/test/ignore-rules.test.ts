@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { createIgnoreMatcher } from '../lib/ignore-rules.js'
+
+const workspaceRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/ignore')
+const stencilDir = join(workspaceRoot, 'stencil')
+
+describe('Ignore Rules', () => {
+  it('should apply .promarkerignore from the workspace root', () => {
+    const matcher = createIgnoreMatcher([workspaceRoot, stencilDir])
+    expect(matcher.ignores(join(stencilDir, 'files/main.ts.hbs.bak'))).toBe(true)
+    expect(matcher.ignores(join(stencilDir, 'files/main.ts.hbs'))).toBe(false)
+  })
+
+  it('should apply .promarkerignore from the stencil directory with negation', () => {
+    const matcher = createIgnoreMatcher([workspaceRoot, stencilDir])
+    expect(matcher.ignores(join(stencilDir, 'files/build/out.js'))).toBe(true)
+    expect(matcher.ignores(join(stencilDir, 'files/build/keep.txt'))).toBe(false)
+  })
+
+  it('should apply --ignore patterns relative to the stencil directory', () => {
+    const matcher = createIgnoreMatcher([stencilDir], ['files/*.hbs'])
+    expect(matcher.ignores(join(stencilDir, 'files/main.ts.hbs'))).toBe(true)
+    expect(matcher.ignores(join(workspaceRoot, 'files/main.ts.hbs'))).toBe(false)
+  })
+
+  it('should not match paths outside of the base directories', () => {
+    const matcher = createIgnoreMatcher([stencilDir], ['*'])
+    expect(matcher.ignores(join(workspaceRoot, 'other.txt'))).toBe(false)
+    expect(matcher.ignores(stencilDir)).toBe(false)
+  })
+})
@@ -1,6 +1,10 @@
 import { describe, it, expect } from 'vitest'
+import type { Command } from 'commander'
 import { program } from '../index.js'
 
+const findCommand = (path: string[]): Command =>
+  path.reduce((parent, name) => parent.commands.find(cmd => cmd.name() === name)!, program)
+
 describe('CLI Program', () => {
   it('should have the correct name and alias', () => {
     expect(program.name()).toBe('promarker')
@@ -21,4 +25,25 @@ describe('CLI Program', () => {
   it('should have version information', () => {
     expect(program.version()).toBeTruthy()
   })
-})
\ No newline at end of file
+
+  it.each([
+    ['validate', [], 'sarf'],
+    ['doctor', [], 'yaml'],
+    ['generate', ['stencil', '--out', 'out'], 'yaml'],
+    ['preview', ['stencil'], 'html'],
+    ['schema', [], 'json'],
+    ['catalog', [], 'yaml'],
+    ['graph', [], 'svg'],
+    ['server status', [], 'yaml'],
+    ['whoami', [], 'yaml'],
+    ['diff', ['old', 'new'], 'yaml']
+  ])('should reject unsupported formats for %s', async (name, args, format) => {
+    let errors = ''
+    findCommand(name.split(' ')).exitOverride().configureOutput({ writeErr: text => { errors += text } })
+
+    await expect(program.parseAsync([...name.split(' '), ...args, '--format', format], { from: 'user' })).rejects.toMatchObject({
+      code: 'commander.invalidArgument'
+    })
+    expect(errors).toContain(`'${format}' is invalid. Allowed choices are`)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { checkOutputPaths, findExternalSymlinks, isUnsafePath, renderPathTemplate, toOutputPath } from '../lib/output-paths.js'
+import { validateStencil } from '../lib/validator.js'
+
+describe('Output Paths', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-paths-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should render placeholders with values and normalize the rest', () => {
+    expect(renderPathTemplate('src/{{serviceName}}/{{ module }}.ts', { serviceName: 'orders' })).toBe('src/orders/{{module}}.ts')
+    expect(toOutputPath('files/src/{{serviceName}}/main.ts.hbs', { serviceName: 'orders' })).toBe('src/orders/main.ts')
+    expect(toOutputPath('templates/README.md')).toBe('templates/README.md')
+  })
+
+  it('should flag absolute and escaping paths', () => {
+    expect(isUnsafePath('/etc/passwd')).toBe(true)
+    expect(isUnsafePath('C:\\Windows')).toBe(true)
+    expect(isUnsafePath('../shared/main.ts')).toBe(true)
+    expect(isUnsafePath('src/../../main.ts')).toBe(true)
+    expect(isUnsafePath('src/../main.ts')).toBe(false)
+    expect(isUnsafePath('src/main.ts')).toBe(false)
+  })
+
+  it('should report unsafe rendered paths and collisions', () => {
+    const results = checkOutputPaths(dir, [
+      'files/{{target}}/main.ts.hbs',
+      'files/README.md',
+      'files/README.md.hbs',
+      'files/src/{{name}}.ts.hbs',
+      'files/src/{{ name }}.ts',
+      'files/Readme.md'
+    ], { target: '../..' })
+
+    expect(results.map(result => [result.rule, result.message])).toEqual([
+      ['files/unsafe-path', 'Output path leaves the output directory: ../../main.ts'],
+      ['files/output-collision', 'Files render to the same output path: README.md'],
+      ['files/output-collision', 'Files render to the same output path: src/{{name}}.ts'],
+      ['files/case-collision', 'Output paths only differ in case: README.md, Readme.md']
+    ])
+  })
+
+  it('should find symlinks that leave the stencil directory', () => {
+    const stencilDir = join(dir, 'stencil')
+    mkdirSync(join(stencilDir, 'files'), { recursive: true })
+    writeFileSync(join(stencilDir, 'files/inside.txt'), '')
+    writeFileSync(join(dir, 'outside.txt'), '')
+    symlinkSync(join(stencilDir, 'files/inside.txt'), join(stencilDir, 'files/internal-link.txt'))
+    symlinkSync(join(dir, 'outside.txt'), join(stencilDir, 'files/external-link.txt'))
+    symlinkSync(join(dir, 'missing.txt'), join(stencilDir, 'files/dangling-link.txt'))
+
+    const links = findExternalSymlinks(stencilDir, ['inside.txt', 'internal-link.txt', 'external-link.txt', 'dangling-link.txt']
+      .map(name => join(stencilDir, 'files', name)))
+
+    expect(links.map(link => [link.path, link.target !== undefined])).toEqual([
+      [join(stencilDir, 'files/external-link.txt'), true],
+      [join(stencilDir, 'files/dangling-link.txt'), false]
+    ])
+  })
+
+  it('should validate files entries, default-rendered paths and symlinks', async () => {
+    mkdirSync(join(dir, 'files'))
+    writeFileSync(join(dir, 'stencil-settings.yml'), [
+      'id: paths',
+      'name: Paths',
+      'version: 1.0.0',
+      'type: service',
+      'files:',
+      '  - ../other/main.ts',
+      '  - files/{{name}}.ts.hbs',
+      'variables:',
+      '  name:',
+      '    type: string',
+      '    default: ../escape'
+    ].join('\n'))
+    writeFileSync(join(dir, 'files/{{name}}.ts.hbs'), '')
+    symlinkSync(tmpdir(), join(dir, 'files/tmp'))
+
+    const summary = await validateStencil(dir)
+
+    expect(summary.errors.map(result => [result.rule, result.location?.start.line])).toEqual([
+      ['files/unsafe-path', 6],
+      ['files/unsafe-path', undefined],
+      ['files/external-symlink', undefined]
+    ])
+  })
+
+  it('should not read templates listed outside the stencil directory', async () => {
+    const stencilDir = join(dir, 'stencil')
+    mkdirSync(join(stencilDir, 'files'), { recursive: true })
+    writeFileSync(join(stencilDir, 'stencil-settings.yml'), 'id: paths\nname: Paths\nversion: 1.0.0\ntype: service\nfiles:\n  - ../outside.hbs\n')
+    writeFileSync(join(dir, 'outside.hbs'), '{{secret}}\n')
+
+    const summary = await validateStencil(stencilDir)
+
+    expect(summary.errors.map(result => result.rule)).toEqual(['files/unsafe-path'])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { loadConfig } from '../lib/config.js'
+import { definePlugin, loadPlugins, runPluginRules } from '../lib/plugins.js'
+import { applyRules } from '../lib/rule-engine.js'
+import type { ValidationResult } from '../lib/types.js'
+
+const pluginRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/plugins')
+const stencilDir = join(pluginRoot, 'stencil')
+const settingsFile = join(stencilDir, 'stencil-settings.yml')
+
+const baseContext = {
+  stencilDir,
+  settingsFile,
+  settings: { id: 'plugin-stencil', type: 'legacy', metadata: { team: 'platform' } },
+  files: ['stencil-settings.yml'],
+  locate: () => undefined
+}
+
+describe('Plugins', () => {
+  it('should load plugins listed in the config file', async () => {
+    const config = await loadConfig(join(pluginRoot, 'promarker.config.yml'))
+
+    expect(config.plugins.map(plugin => plugin.name)).toEqual(['house-rules'])
+    expect(config.rules).toEqual({ 'house/banned-type': 'warn' })
+  })
+
+  it('should report plugin findings as validation results with configured severities', async () => {
+    const config = await loadConfig(join(pluginRoot, 'promarker.config.yml'))
+    const results: ValidationResult[] = []
+    await runPluginRules(config.plugins, baseContext, results)
+
+    const applied = applyRules(results, { config }, settingsFile)
+    expect(applied.map(r => [r.rule, r.type])).toEqual([
+      ['house/require-owner', 'error'],
+      ['house/banned-type', 'warning']
+    ])
+  })
+
+  it('should report rules that throw instead of aborting', async () => {
+    const plugin = definePlugin({
+      name: 'broken',
+      rules: [{ id: 'broken/rule', description: 'Always throws', check: () => { throw new Error('boom') } }]
+    })
+    const results: ValidationResult[] = []
+    await runPluginRules([plugin], baseContext, results)
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ rule: 'plugins/rule-error', details: 'boom' })
+  })
+
+  it('should reject plugins without a valid shape', async () => {
+    await expect(loadPlugins([{ name: 'invalid', rules: [{ id: 'x' }] }], join(pluginRoot, 'promarker.config.yml'))).rejects.toThrow(
+      'Invalid plugin'
+    )
+  })
+})
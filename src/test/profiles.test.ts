@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, statSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { getProfilesFile, hasLoosePermissions, loadProfiles, resolveProfile, saveProfiles } from '../lib/profiles.js'
+
+describe('Profiles', () => {
+  let configHome: string
+  let env: Record<string, string | undefined>
+
+  beforeEach(() => {
+    configHome = mkdtempSync(join(tmpdir(), 'promarker-profiles-'))
+    env = { XDG_CONFIG_HOME: configHome }
+    saveProfiles(getProfilesFile(env), {
+      profiles: {
+        default: { url: 'http://localhost:8080', token: 'local-token' },
+        staging: { url: 'https://staging.example.com', token: 'staging-token', user: 'alice' }
+      }
+    })
+  })
+
+  afterEach(() => {
+    rmSync(configHome, { recursive: true, force: true })
+  })
+
+  it('should store profiles under the XDG config dir readable by the owner only', () => {
+    const file = getProfilesFile(env)
+
+    expect(file).toBe(join(configHome, 'promarker', 'profiles.yml'))
+    expect(loadProfiles(file).profiles.staging.user).toBe('alice')
+    if (process.platform !== 'win32') {
+      expect(statSync(file).mode & 0o777).toBe(0o600)
+      expect(hasLoosePermissions(file)).toBe(false)
+    }
+  })
+
+  it('should select the profile from --profile, then PROMARKER_PROFILE, then default', () => {
+    expect(resolveProfile({}, env)).toMatchObject({ name: 'default', token: 'local-token', tokenSource: 'profile' })
+    expect(resolveProfile({}, { ...env, PROMARKER_PROFILE: 'staging' }).name).toBe('staging')
+    expect(resolveProfile({ profile: 'staging' }, { ...env, PROMARKER_PROFILE: 'default' })).toMatchObject({
+      name: 'staging',
+      url: 'https://staging.example.com',
+      urlSource: 'profile'
+    })
+  })
+
+  it('should let --server-url and environment variables override the profile', () => {
+    const ci = { ...env, PROMARKER_URL: 'https://ci.example.com', PROMARKER_TOKEN: 'ci-token' }
+
+    expect(resolveProfile({ profile: 'staging' }, ci)).toMatchObject({
+      url: 'https://ci.example.com',
+      urlSource: 'env',
+      token: 'ci-token',
+      tokenSource: 'env'
+    })
+    expect(resolveProfile({ serverUrl: 'http://127.0.0.1:9000' }, ci)).toMatchObject({ url: 'http://127.0.0.1:9000', urlSource: 'option' })
+  })
+
+  it('should only send a stored token to the server it was stored for', () => {
+    expect(resolveProfile({ profile: 'staging', serverUrl: 'https://STAGING.example.com/' }, env)).toMatchObject({
+      token: 'staging-token',
+      tokenSource: 'profile'
+    })
+    expect(() => resolveProfile({ profile: 'staging', serverUrl: 'https://evil.example.com' }, env)).toThrow(
+      'The token of profile staging is for https://staging.example.com, not https://evil.example.com (from --server-url)'
+    )
+    expect(() => resolveProfile({}, { ...env, PROMARKER_URL: 'https://ci.example.com' })).toThrow('(from PROMARKER_URL)')
+    expect(resolveProfile({}, { ...env, PROMARKER_URL: 'https://ci.example.com', PROMARKER_TOKEN: 'ci-token' }).token).toBe('ci-token')
+  })
+
+  it('should reject unknown profiles unless a token is given by the environment', () => {
+    expect(() => resolveProfile({ profile: 'prod' }, env)).toThrow('Unknown profile: prod')
+    expect(resolveProfile({ profile: 'prod' }, { ...env, PROMARKER_TOKEN: 'ci-token' }).token).toBe('ci-token')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { createReferenceResolver, describeStencil, resolveReferenceGraph } from '../lib/reference-resolver.js'
+
+const stencilRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/references')
+
+describe('Reference Resolver', () => {
+  it('should resolve references by relative path and by id', async () => {
+    const resolver = createReferenceResolver(stencilRoot)
+    const graph = await resolveReferenceGraph(resolver, join(stencilRoot, 'service'))
+
+    expect(graph.references).toHaveLength(2)
+    expect(graph.references.every(ref => ref.target && !ref.target.error)).toBe(true)
+    expect(graph.cycles).toHaveLength(0)
+  })
+
+  it('should report the full inheritance chain', async () => {
+    const resolver = createReferenceResolver(stencilRoot)
+    const graph = await resolveReferenceGraph(resolver, join(stencilRoot, 'service'))
+
+    expect(graph.extendChain.map(s => describeStencil(s, stencilRoot))).toEqual([
+      'service-stencil',
+      'base-stencil'
+    ])
+  })
+
+  it('should report unresolved and invalid references', async () => {
+    const resolver = createReferenceResolver(stencilRoot)
+    const graph = await resolveReferenceGraph(resolver, join(stencilRoot, 'broken'))
+
+    const extend = graph.references.find(ref => ref.kind === 'extend')
+    const include = graph.references.find(ref => ref.kind === 'include')
+    expect(extend?.target).toBeNull()
+    expect(include?.target?.error).toContain('version')
+  })
+
+  it('should detect circular extend/include references', async () => {
+    const resolver = createReferenceResolver(stencilRoot)
+    const graph = await resolveReferenceGraph(resolver, join(stencilRoot, 'cycle-a'))
+
+    expect(graph.cycles).toHaveLength(1)
+    expect(graph.cycles[0].map(s => describeStencil(s, stencilRoot))).toEqual([
+      'cycle-a',
+      'cycle-b',
+      'cycle-a'
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { formatJUnit, formatSarif } from '../lib/report-formatters.js'
+import type { ValidationSummary } from '../lib/types.js'
+
+const summary: ValidationSummary = {
+  success: false,
+  path: '/work/stencils/service',
+  errors: [
+    {
+      path: '/work/stencils/service/files/main.ts.hbs',
+      rule: 'variables/undeclared',
+      type: 'error',
+      message: 'Undeclared template variable: <owner>'
+    }
+  ],
+  warnings: [
+    {
+      path: '/work/stencils/service/stencil-settings.yml',
+      rule: 'settings/description',
+      type: 'warning',
+      message: 'Description is recommended for better documentation'
+    }
+  ],
+  info: [
+    {
+      path: '/work/stencils/service/stencil-settings.yml',
+      rule: 'settings/valid',
+      type: 'info',
+      message: 'Stencil settings file is valid'
+    }
+  ],
+  totalFiles: 2,
+  validatedAt: '2025-01-01T00:00:00.000Z'
+}
+
+describe('Report Formatters', () => {
+  it('should map findings to SARIF results with rule ids, levels and locations', () => {
+    const log = JSON.parse(formatSarif([summary], { toolVersion: '1.2.3', baseDir: '/work' }))
+    const run = log.runs[0]
+
+    expect(log.version).toBe('2.1.0')
+    expect(run.tool.driver.version).toBe('1.2.3')
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'settings/description',
+      'variables/undeclared'
+    ])
+    expect(run.results).toHaveLength(2)
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'variables/undeclared',
+      ruleIndex: 1,
+      level: 'error'
+    })
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('stencils/service/files/main.ts.hbs')
+  })
+
+  it('should write one JUnit test suite per stencil with escaped failures', () => {
+    const xml = formatJUnit([summary], { baseDir: '/work', failOn: 'error' })
+
+    expect(xml).toContain('<testsuite name="stencils/service" tests="2" failures="1"')
+    expect(xml).toContain('<failure type="error" message="Undeclared template variable: &lt;owner&gt;">')
+    expect(xml).toContain('<system-out>warning: Description is recommended')
+  })
+
+  it('should count warnings as JUnit failures when failing on warnings', () => {
+    const xml = formatJUnit([summary], { baseDir: '/work', failOn: 'warn' })
+    expect(xml).toContain('failures="2"')
+    expect(xml).toContain('<failure type="warning"')
+  })
+
+  it('should add a passing test case for stencils without findings', () => {
+    const xml = formatJUnit([{ ...summary, success: true, errors: [], warnings: [] }], { baseDir: '/work', failOn: 'error' })
+    expect(xml).toContain('<testcase classname="stencils/service" name="stencil validation"/>')
+  })
+})
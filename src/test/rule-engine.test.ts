@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { findConfigFile, loadConfig } from '../lib/config.js'
+import { applyRules, assertKnownRules, parseSuppressions, resolveSeverity } from '../lib/rule-engine.js'
+import type { ValidationResult } from '../lib/types.js'
+
+const configRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/config')
+const settingsFile = '/stencil/stencil-settings.yml'
+
+const result = (rule: string, line?: number): ValidationResult => ({
+  path: settingsFile,
+  rule,
+  type: 'warning',
+  message: rule,
+  location: line ? { start: { line, column: 1 }, end: { line, column: 5 } } : undefined
+})
+
+describe('Rule Engine', () => {
+  it('should discover the config file up the directory tree', async () => {
+    const configFile = findConfigFile(join(configRoot, 'nested/stencil'))
+    expect(configFile).toBe(join(configRoot, 'promarker.config.yml'))
+
+    const config = await loadConfig(configFile!)
+    expect(config.rules).toEqual({ 'settings/id-format': 'error', 'variables/unused': 'off' })
+  })
+
+  it('should resolve severities from config, --strict and rule defaults', () => {
+    const config = { rules: { 'variables/unused': 'error' as const }, plugins: [] }
+    expect(resolveSeverity('variables/unused', { config })).toBe('error')
+    expect(resolveSeverity('settings/version-format', { config })).toBe('off')
+    expect(resolveSeverity('settings/version-format', { config, strict: true })).toBe('warn')
+    expect(resolveSeverity('variables/undeclared', { config })).toBe('error')
+  })
+
+  it('should drop results of disabled rules and retype the rest', () => {
+    const config = { rules: { 'variables/unused': 'off' as const, 'files/missing-directory': 'error' as const }, plugins: [] }
+    const applied = applyRules([result('variables/unused'), result('files/missing-directory')], { config }, settingsFile)
+
+    expect(applied).toHaveLength(1)
+    expect(applied[0]).toMatchObject({ rule: 'files/missing-directory', type: 'error' })
+  })
+
+  it('should reject unknown rule ids in the config', () => {
+    expect(() => assertKnownRules({ path: 'promarker.config.json', rules: { 'settings/nope': 'off' }, plugins: [] })).toThrow(
+      'settings/nope'
+    )
+  })
+
+  it('should honour inline suppression comments', () => {
+    const content = [
+      'id: Bad_ID # promarker-disable-line settings/id-format',
+      '# promarker-disable-next-line',
+      'version: "1.0"',
+      '# promarker-disable variables/unused, settings/description -- legacy',
+      'variables:',
+      '  unused:',
+      '    type: string',
+      '# promarker-enable variables/unused',
+      '  other:',
+      '    type: string'
+    ].join('\n')
+    const context = { config: { rules: {}, plugins: [] }, strict: true }
+    const applied = applyRules(
+      [
+        result('settings/id-format', 1),
+        result('settings/version-format', 3),
+        result('variables/unused', 6),
+        result('variables/unused', 9),
+        result('settings/description', 9)
+      ],
+      context,
+      settingsFile,
+      content
+    )
+
+    expect(applied.map(r => `${r.rule}:${r.location?.start.line}`)).toEqual(['variables/unused:9'])
+  })
+
+  it('should keep blocks without an enable open until the end of the file', () => {
+    const suppressions = parseSuppressions('# promarker-disable\nid: a\nname: b')
+    expect(suppressions).toEqual([{ rules: undefined, fromLine: 1, toLine: 3 }])
+  })
+})
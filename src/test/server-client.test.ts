@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { setTimeout } from 'timers'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { createServerClient, runRemoteValidation, toServerClientOptions } from '../lib/server-client.js'
+import { applyRules } from '../lib/rule-engine.js'
+import type { ValidationResult } from '../lib/types.js'
+
+const stencilDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/fix')
+const settingsFile = join(stencilDir, 'stencil-settings.yml')
+
+type Handler = (req: IncomingMessage, res: ServerResponse, body: string) => void
+
+// Local mock of the ProMarker server; each test queues the responses it needs
+let server: Server
+let baseUrl: string
+let handlers: Handler[] = []
+let requests: { method?: string; url?: string; body: string }[] = []
+
+const json = (status: number, body: unknown): Handler => (_req, res) => {
+  res.writeHead(status, { 'content-type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8')
+      requests.push({ method: req.method, url: req.url, body })
+      const handler = handlers.shift() ?? json(404, { error: 'not found' })
+      handler(req, res, body)
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  handlers = []
+  requests = []
+})
+
+describe('Server Client', () => {
+  it('should fetch the server status', async () => {
+    handlers.push(json(200, { status: 'ok', version: '2.1.0' }))
+    const client = createServerClient({ baseUrl: `${baseUrl}/` })
+
+    await expect(client.status()).resolves.toEqual({ status: 'ok', version: '2.1.0' })
+    expect(requests.map(r => `${r.method} ${r.url}`)).toEqual(['GET /api/v1/status'])
+  })
+
+  it('should retry 5xx responses and give up on 4xx responses', async () => {
+    handlers.push(json(503, {}), json(200, { status: 'ok' }))
+    const client = createServerClient({ baseUrl, retries: 2, retryDelay: 1 })
+    await expect(client.status()).resolves.toEqual({ status: 'ok' })
+    expect(requests).toHaveLength(2)
+
+    handlers.push(json(401, { error: 'unauthorized' }))
+    await expect(client.status()).rejects.toThrow('responded with 401')
+    expect(requests).toHaveLength(3)
+  })
+
+  it('should time out slow requests', async () => {
+    handlers.push((_req, res) => setTimeout(() => json(200, { status: 'ok' })(_req, res), 500))
+    const client = createServerClient({ baseUrl, timeout: 50, retries: 0 })
+
+    await expect(client.status()).rejects.toThrow('timed out after 50ms')
+  })
+
+  it('should reject responses that do not match the schema', async () => {
+    handlers.push(json(200, { results: [{ rule: 'x' }] }))
+    const client = createServerClient({ baseUrl, retries: 0 })
+
+    await expect(client.validate({ files: [] })).rejects.toThrow('Unexpected response from ProMarker server')
+  })
+
+  it('should return generated archives as raw bytes', async () => {
+    const archive = Buffer.from([0x1f, 0x8b, 0x00, 0xff])
+    handlers.push((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/gzip' })
+      res.end(archive)
+    })
+    const client = createServerClient({ baseUrl, retries: 0 })
+
+    await expect(client.generate({ files: [], variables: { port: 8080 } })).resolves.toEqual(archive)
+    expect(requests[0].url).toBe('/api/v1/stencils/generate')
+    expect(JSON.parse(requests[0].body).variables).toEqual({ port: 8080 })
+  })
+
+  it('should merge server findings into the validation results', async () => {
+    handlers.push(json(200, {
+      results: [
+        { rule: 'naming', type: 'warning', message: 'Name should be in Japanese' },
+        { rule: 'template-lint', type: 'error', message: 'Bad template', path: 'files/README.md' }
+      ]
+    }))
+    const client = createServerClient({ baseUrl, retries: 0 })
+    const results: ValidationResult[] = []
+    await runRemoteValidation(client, { stencilDir, settingsFile, id: 'fix', files: ['files/README.md'] }, results)
+
+    const sent = JSON.parse(requests[0].body)
+    expect(sent.id).toBe('fix')
+    expect(Buffer.from(sent.files[0].content, 'base64').toString()).toBe('# Sample\n')
+
+    const config = { rules: { 'server/naming': 'off' as const }, plugins: [] }
+    expect(applyRules(results, { config }, settingsFile).map(r => [r.rule, r.type, r.path])).toEqual([
+      ['server/template-lint', 'error', join(stencilDir, 'files/README.md')]
+    ])
+  })
+
+  it('should report unreachable servers as a validation result', async () => {
+    const client = createServerClient({ baseUrl: 'http://127.0.0.1:1', retries: 0 })
+    const results: ValidationResult[] = []
+    await runRemoteValidation(client, { stencilDir, settingsFile, files: [] }, results)
+
+    expect(results.map(r => [r.rule, r.type])).toEqual([['remote/request-failed', 'error']])
+    expect(results[0].details).toContain('Could not reach ProMarker server')
+  })
+
+  it('should report whether the server accepts the token', async () => {
+    handlers.push(json(200, { user: { name: 'alice' }, team: 'platform' }), json(401, { error: 'invalid token' }))
+    const client = createServerClient({ baseUrl, retries: 0, headers: { authorization: 'Bearer secret' } })
+
+    await expect(client.whoami()).resolves.toEqual({ user: { name: 'alice' }, team: 'platform' })
+    await expect(client.whoami()).resolves.toBeNull()
+    expect(requests.map(r => r.url)).toEqual(['/api/v1/auth/whoami', '/api/v1/auth/whoami'])
+  })
+
+  it('should build client options from command line options and the environment', () => {
+    const env = { XDG_CONFIG_HOME: join(stencilDir, 'no-config'), PROMARKER_URL: 'http://ci:8080', PROMARKER_TOKEN: 'ci-token' }
+
+    expect(toServerClientOptions({ timeout: '500', retries: '0' }, env)).toEqual({
+      baseUrl: 'http://ci:8080',
+      timeout: 500,
+      retries: 0,
+      headers: { authorization: 'Bearer ci-token' }
+    })
+    expect(() => toServerClientOptions({ retries: 'many' }, env)).toThrow('--retries must be a non-negative integer')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { applySettingsFixes, findSettingsFixes, formatFixDiff } from '../lib/settings-fixer.js'
+import { parseYamlSource } from '../lib/source-location.js'
+
+const stencilDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures/fix')
+const content = readFileSync(join(stencilDir, 'stencil-settings.yml'), 'utf-8')
+
+describe('Settings Fixer', () => {
+  it('should find id, version and file case fixes', () => {
+    const fixes = findSettingsFixes(stencilDir, parseYamlSource(content))
+
+    expect(fixes.map(({ rule, from, to }) => ({ rule, from, to }))).toEqual([
+      { rule: 'settings/id-format', from: 'MyService', to: 'myservice' },
+      { rule: 'settings/version-format', from: '1.0', to: '1.0.0' },
+      { rule: 'files/missing-reference', from: 'files/readme.md', to: 'files/README.md' }
+    ])
+    expect(fixes[0].location?.start).toEqual({ line: 2, column: 1 })
+  })
+
+  it('should only replace the fixed values and keep comments and quoting', () => {
+    const fixed = applySettingsFixes(content, findSettingsFixes(stencilDir, parseYamlSource(content)))
+
+    expect(fixed).toBe(
+      content
+        .replace('id: MyService   # keep this comment', 'id: myservice   # keep this comment')
+        .replace('version: "1.0"', 'version: "1.0.0"')
+        .replace('- files/readme.md ', '- files/README.md ')
+    )
+    expect(findSettingsFixes(stencilDir, parseYamlSource(fixed))).toEqual([])
+  })
+
+  it('should complete unquoted numeric versions', () => {
+    const source = parseYamlSource('id: sample\nversion: 2.1\n')
+    const fixes = findSettingsFixes(stencilDir, source)
+
+    expect(fixes.map(({ rule, to }) => ({ rule, to }))).toEqual([{ rule: 'settings/schema', to: '2.1.0' }])
+    expect(applySettingsFixes(source.content, fixes)).toBe('id: sample\nversion: 2.1.0\n')
+  })
+
+  it('should render a unified diff of the changed lines', () => {
+    const diff = formatFixDiff('stencil-settings.yml', 'id: A\nname: a\nversion: 1\n', 'id: a\nname: a\nversion: 1.0.0\n')
+
+    expect(diff.split('\n')).toEqual([
+      '--- a/stencil-settings.yml',
+      '+++ b/stencil-settings.yml',
+      '@@ -1 +1 @@',
+      '-id: A',
+      '+id: a',
+      '@@ -3 +3 @@',
+      '-version: 1',
+      '+version: 1.0.0'
+    ])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { formatCodeFrame, parseYamlSource } from '../lib/source-location.js'
+
+const settings = [
+  'id: service-template',
+  'name: "Service Template"',
+  'variables:',
+  '  serviceName:',
+  '    type: string',
+  '  port:',
+  '    type: numbr',
+  'include:',
+  '  - base',
+  '  - common'
+].join('\n')
+
+describe('Source Location', () => {
+  it('should locate nested keys with line and column ranges', () => {
+    const source = parseYamlSource(settings)
+    expect(source.locate(['variables', 'port', 'type'])).toEqual({
+      start: { line: 7, column: 5 },
+      end: { line: 7, column: 16 }
+    })
+  })
+
+  it('should locate sequence items by index', () => {
+    const source = parseYamlSource(settings)
+    expect(source.locate(['include', 1])?.start).toEqual({ line: 10, column: 5 })
+  })
+
+  it('should fall back to the closest existing parent for missing keys', () => {
+    const source = parseYamlSource(settings)
+    expect(source.locate(['variables', 'port', 'default'])?.start).toEqual({ line: 6, column: 3 })
+    expect(source.locate(['version'])?.start).toEqual({ line: 1, column: 1 })
+  })
+
+  it('should report YAML syntax errors with positions', () => {
+    const source = parseYamlSource('id: [broken\nname: test\n')
+    expect(source.errors.length).toBeGreaterThan(0)
+    expect(source.errors[0].location.start.line).toBeGreaterThan(0)
+  })
+
+  it('should render a code frame with the range highlighted', () => {
+    const frame = formatCodeFrame(settings, { start: { line: 7, column: 11 }, end: { line: 7, column: 16 } })
+    expect(frame).toEqual([
+      '  6 |   port:',
+      '> 7 |     type: numbr',
+      '    |           ^^^^^',
+      '  8 | include:'
+    ])
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { cpSync, mkdirSync, mkdtempSync, rmSync, symlinkSync, unlinkSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { checkVersionBump, diffStencils, loadStencilSnapshot, requiredBump, type StencilChange } from '../lib/stencil-diff.js'
+import { diffCommand } from '../commands/diff.js'
+
+const SETTINGS = `id: orders
+name: Orders
+version: 1.2.0
+type: service
+variables:
+  serviceName:
+    type: string
+    required: true
+  region:
+    type: enum
+    values: [eu, us]
+    default: eu
+  owner:
+    type: string
+`
+
+const change = (level: StencilChange['level']): StencilChange => ({ level, kind: 'test', message: 'test' })
+
+describe('Stencil diff', () => {
+  let dir: string
+  let oldDir: string
+  let newDir: string
+
+  const writeSettings = (content: string) => writeFileSync(join(newDir, 'stencil-settings.yml'), content)
+  const diff = async () => diffStencils(await loadStencilSnapshot(oldDir), await loadStencilSnapshot(newDir))
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-diff-'))
+    oldDir = join(dir, 'old')
+    newDir = join(dir, 'new')
+    mkdirSync(join(oldDir, 'files/src'), { recursive: true })
+    writeFileSync(join(oldDir, 'stencil-settings.yml'), SETTINGS)
+    writeFileSync(join(oldDir, 'files/README.md.hbs'), '# {{serviceName}}\n')
+    writeFileSync(join(oldDir, 'files/src/{{serviceName}}.ts.hbs'), 'export const region = "{{region}}"\n')
+    cpSync(oldDir, newDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should report no changes for identical stencils', async () => {
+    expect(await diff()).toEqual([])
+  })
+
+  it('should classify variable changes', async () => {
+    writeSettings(SETTINGS
+      .replace('  region:\n    type: enum\n    values: [eu, us]', '  region:\n    type: enum\n    values: [eu, apac]')
+      .replace('  owner:\n    type: string\n', '  owner:\n    type: string\n    required: true\n  team:\n    type: string\n'))
+
+    expect((await diff()).map(({ level, kind }) => [level, kind])).toEqual([
+      ['breaking', 'variables/values-removed'],
+      ['feature', 'variables/values-added'],
+      ['breaking', 'variables/required'],
+      ['feature', 'variables/added']
+    ])
+  })
+
+  it('should classify removed variables, files and a changed base stencil as breaking', async () => {
+    writeSettings(SETTINGS.replace('  owner:\n    type: string\n', '') + 'extend: base\n')
+    unlinkSync(join(newDir, 'files/README.md.hbs'))
+    writeFileSync(join(newDir, 'files/CHANGELOG.md'), '# Changes\n')
+    writeFileSync(join(newDir, 'files/src/{{serviceName}}.ts.hbs'), 'export const region = "{{region}}";\n')
+
+    expect((await diff()).map(({ level, message }) => [level, message])).toEqual([
+      ['breaking', 'Base stencil changed: (none) → base'],
+      ['breaking', 'Variable removed: owner'],
+      ['breaking', 'Output file removed: README.md'],
+      ['patch', 'Template changed: src/{{serviceName}}.ts'],
+      ['feature', 'Output file added: CHANGELOG.md']
+    ])
+  })
+
+  it('should require a bump that covers the changes', () => {
+    expect(requiredBump([])).toBe('none')
+    expect(requiredBump([change('patch'), change('feature')])).toBe('minor')
+
+    expect(checkVersionBump('1.2.0', '2.0.0', [change('breaking')])).toMatchObject({ actual: 'major', required: 'major', ok: true })
+    expect(checkVersionBump('1.2.0', '1.3.0', [change('patch')])).toMatchObject({ actual: 'minor', ok: true })
+    expect(checkVersionBump('1.2.0', '1.2.1', [change('feature')])).toEqual({
+      from: '1.2.0', to: '1.2.1', actual: 'patch', required: 'minor', ok: false, suggested: '1.3.0'
+    })
+    expect(checkVersionBump('1.2.0', '1.2.0', [change('patch')])).toMatchObject({ actual: 'none', ok: false, suggested: '1.2.1' })
+    expect(checkVersionBump('1.2.0', '1.2.0', [])).toMatchObject({ ok: true })
+  })
+
+  it('should accept a minor bump for breaking changes below 1.0.0', () => {
+    expect(checkVersionBump('0.3.1', '0.4.0', [change('breaking')])).toMatchObject({ required: 'major', ok: true })
+    expect(checkVersionBump('0.3.1', '0.3.2', [change('breaking')])).toMatchObject({ ok: false, suggested: '0.4.0' })
+  })
+
+  it('should reject invalid and decreasing versions', () => {
+    expect(checkVersionBump('1.2.0', 'next', [])).toMatchObject({ actual: null, ok: false, problem: 'New version "next" does not follow semantic versioning (x.y.z)' })
+    expect(checkVersionBump('1.2.0', '1.1.9', [])).toMatchObject({ actual: null, ok: false, problem: 'Version went down from 1.2.0 to 1.1.9', suggested: '1.2.0' })
+  })
+
+  it('should compare a stencil with its version at a git ref', async () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' })
+    symlinkSync('README.md.hbs', join(newDir, 'files/INDEX.md.hbs'))
+    git('init', '-q')
+    git('add', '-A')
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'stencils')
+    writeSettings(SETTINGS.replace('version: 1.2.0', 'version: 1.2.1').replace('  owner:\n    type: string\n', ''))
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const cwd = vi.spyOn(process, 'cwd').mockReturnValue(dir)
+    try {
+      expect(await diffCommand('new', undefined, { base: 'HEAD', format: 'json' })).toBe(2)
+    } finally {
+      cwd.mockRestore()
+    }
+
+    const report = JSON.parse(log.mock.calls[0][0])
+    expect(report.old).toEqual({ path: 'HEAD:new', version: '1.2.0' })
+    expect(report.changes).toEqual([{ level: 'breaking', kind: 'variables/removed', message: 'Variable removed: owner' }])
+    expect(report.version).toMatchObject({ actual: 'patch', required: 'major', ok: false, suggested: '2.0.0' })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { buildStencilGraph, findAffectedStencils, formatGraphDot, formatGraphMermaid } from '../lib/stencil-graph.js'
+import { graphCommand } from '../commands/graph.js'
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+
+describe('Stencil graph', () => {
+  let dir: string
+
+  const writeStencil = (path: string, settings: string, files: string[] = []) => {
+    mkdirSync(join(dir, path, 'files'), { recursive: true })
+    writeFileSync(join(dir, path, 'stencil-settings.yml'), settings)
+    files.forEach(file => writeFileSync(join(dir, path, 'files', file), ''))
+  }
+
+  beforeEach(() => {
+    // core ← web ← web-admin, core ← api; legacy produces no files and nothing uses it
+    dir = mkdtempSync(join(tmpdir(), 'promarker-graph-'))
+    writeStencil('core', 'id: core\nname: Core\ntype: base\n')
+    writeStencil('legacy', 'id: legacy\nname: Legacy\ntype: library\n')
+    writeStencil('web', 'id: web\nname: Web\ntype: base\nextend: core\n')
+    writeStencil('apps/web-admin', 'id: web-admin\nname: Web Admin\nextend: web\n', ['index.html.hbs'])
+    writeStencil('apps/api', 'id: api\nname: API\ntype: base\ninclude:\n  - ../../core\n', ['main.ts.hbs'])
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should build nodes and edges from extend/include references', async () => {
+    const graph = await buildStencilGraph(dir)
+
+    expect(graph.nodes.map(node => node.path)).toEqual(['apps/api', 'apps/web-admin', 'core', 'legacy', 'web'])
+    expect(graph.edges).toEqual([
+      { from: 'apps/api', to: 'core', kind: 'include', ref: '../../core', inCycle: false },
+      { from: 'apps/web-admin', to: 'web', kind: 'extend', ref: 'web', inCycle: false },
+      { from: 'web', to: 'core', kind: 'extend', ref: 'core', inCycle: false }
+    ])
+    expect(graph.nodes.filter(node => node.orphan).map(node => node.id)).toEqual(['legacy'])
+  })
+
+  it('should mark unresolved references and cycles', async () => {
+    const graph = await buildStencilGraph(join(fixtures, 'references'))
+
+    expect(graph.edges.filter(edge => edge.to === null)).toEqual([
+      { from: 'broken', to: null, kind: 'extend', ref: 'missing-base', inCycle: false }
+    ])
+    expect(graph.cycles).toEqual([['cycle-a', 'cycle-b', 'cycle-a']])
+    expect(graph.edges.filter(edge => edge.inCycle).map(edge => edge.from)).toEqual(['cycle-a', 'cycle-b'])
+  })
+
+  it('should list stencils affected by a change to a base', async () => {
+    const graph = await buildStencilGraph(dir)
+
+    expect(findAffectedStencils(graph, 'core')).toEqual([
+      { path: 'apps/api', id: 'api', depth: 1 },
+      { path: 'web', id: 'web', depth: 1 },
+      { path: 'apps/web-admin', id: 'web-admin', depth: 2 }
+    ])
+    expect(findAffectedStencils(graph, 'legacy')).toEqual([])
+  })
+
+  it('should render DOT and Mermaid output', async () => {
+    const graph = await buildStencilGraph(join(fixtures, 'references'))
+    const dot = formatGraphDot(graph)
+    const mermaid = formatGraphMermaid(graph, 'base')
+
+    expect(dot).toMatch(/^digraph stencils \{\n/)
+    expect(dot).toContain('"service" -> "shared/common" [label=include, style=dashed]')
+    expect(dot).toContain('"cycle-a" -> "cycle-b" [label=extend, color=red, penwidth=2]')
+    expect(dot).toContain('[label="missing-base\\n(unresolved)", color=red')
+
+    expect(mermaid).toMatch(/^flowchart BT\n/)
+    expect(mermaid).toContain('  s0["base-stencil<br/>base"]:::highlight')
+    expect(mermaid).toContain('  s1 -->|extend| u0["missing-base<br/>(unresolved)"]:::unresolved')
+    expect(mermaid).toContain('  linkStyle 0,2,3 stroke:#d00,stroke-width:2px')
+  })
+
+  it('should print the affected stencils as JSON', async () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+
+    expect(await graphCommand(dir, { format: 'json', affected: 'web' })).toBe(0)
+    const output = JSON.parse(String(write.mock.calls[0][0]))
+    expect(output.affected).toEqual({ stencil: 'web', stencils: [{ path: 'apps/web-admin', id: 'web-admin', depth: 1 }] })
+    expect(output.nodes.map((node: { path: string }) => node.path)).toEqual(['apps/web-admin', 'web'])
+  })
+
+  it('should fail for an unknown stencil', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await graphCommand(dir, { format: 'text', affected: 'missing' })).toBe(2)
+    expect(error.mock.calls[0][1]).toContain('No stencil with id or path "missing"')
+  })
+})
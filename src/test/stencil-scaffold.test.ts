@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { checkStencilAnswers, renderStencilSettings, suggestStencilId, writeStencilScaffold } from '../lib/stencil-scaffold.js'
+import { StencilSettingsSchema } from '../lib/stencil-settings.js'
+import { validateStencil } from '../lib/validator.js'
+
+const answers = {
+  id: 'order-service',
+  name: 'Order Service',
+  type: 'service',
+  version: '1.0.0',
+  description: 'Order Service stencil'
+}
+
+describe('Stencil Scaffold', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-init-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should suggest strict ids from directory names', () => {
+    expect(suggestStencilId('Order Service (v2)')).toBe('order-service-v2')
+    expect(suggestStencilId('日本語')).toBe('my-stencil')
+  })
+
+  it('should check answers against the strict rules', () => {
+    expect(checkStencilAnswers(answers)).toEqual([])
+    expect(checkStencilAnswers({ ...answers, id: 'Order', version: '1.0', description: ' ' })).toEqual([
+      'id "Order" may only contain lowercase letters, numbers, hyphens and underscores',
+      'version "1.0" must follow semantic versioning (x.y.z)',
+      'description is required'
+    ])
+  })
+
+  it('should render settings that match the schema', () => {
+    const settings = parseYaml(renderStencilSettings({ ...answers, extend: '../base' }))
+
+    expect(StencilSettingsSchema.parse(settings)).toEqual({ schemaVersion: 1, ...answers, extend: '../base' })
+  })
+
+  it('should write a stencil that passes strict validation', async () => {
+    const stencilDir = join(dir, 'order-service')
+    expect(writeStencilScaffold(stencilDir, answers)).toEqual(['stencil-settings.yml', 'files/.gitkeep'])
+
+    const summary = await validateStencil(stencilDir, { strict: true, stencilRoot: dir })
+    expect(summary.errors).toEqual([])
+    expect(summary.warnings).toEqual([])
+  })
+
+  it('should refuse to overwrite an existing stencil unless forced', () => {
+    writeStencilScaffold(dir, answers)
+
+    expect(() => writeStencilScaffold(dir, { ...answers, id: 'other' })).toThrow('already exists')
+    writeStencilScaffold(dir, { ...answers, id: 'other' }, { force: true })
+    expect(readFileSync(join(dir, 'stencil-settings.yml'), 'utf-8')).toContain('id: other')
+    expect(existsSync(join(dir, 'files/.gitkeep'))).toBe(true)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import {
+  CURRENT_SCHEMA_VERSION,
+  parseStencilSettings,
+  toStencilSettingsJsonSchema
+} from '../lib/stencil-settings.js'
+import { validateStencil } from '../lib/validator.js'
+
+const fixturesRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+const settings = { id: 'order-service', name: 'Order Service', version: '1.0.0', type: 'service' }
+
+describe('Stencil Settings Schema', () => {
+  it('should validate settings without schemaVersion against the first revision', () => {
+    const validation = parseStencilSettings(settings)
+
+    expect(validation).toMatchObject({ success: true, schemaVersion: 1 })
+    expect(parseStencilSettings({ ...settings, schemaVersion: 1 })).toMatchObject({ success: true, schemaVersion: 1 })
+  })
+
+  it('should reject unsupported schema versions', () => {
+    expect(parseStencilSettings({ ...settings, schemaVersion: 99 })).toEqual({
+      success: false,
+      issues: [{ path: ['schemaVersion'], message: 'Unsupported schemaVersion 99 (supported: 1)' }]
+    })
+    expect(parseStencilSettings({ ...settings, schemaVersion: '1' })).toMatchObject({ success: false })
+  })
+
+  it('should report unsupported schema versions at the key', async () => {
+    const summary = await validateStencil(join(fixturesRoot, 'schema/unsupported'))
+
+    expect(summary.errors).toHaveLength(1)
+    expect(summary.errors[0]).toMatchObject({
+      rule: 'settings/schema',
+      message: 'Schema validation failed: schemaVersion - Unsupported schemaVersion 99 (supported: 1)',
+      location: { start: { line: 1, column: 1 } }
+    })
+  })
+
+  it('should export the settings schema as JSON Schema', () => {
+    const schema = toStencilSettingsJsonSchema()
+
+    expect(schema).toMatchObject({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: `ProMarker stencil-settings.yml (schemaVersion ${CURRENT_SCHEMA_VERSION})`,
+      type: 'object',
+      required: ['id', 'name', 'version', 'type']
+    })
+    expect(schema).not.toHaveProperty('additionalProperties')
+    expect(schema).toHaveProperty('properties.variables.additionalProperties.properties.type.enum', [
+      'string',
+      'number',
+      'boolean',
+      'enum',
+      'array'
+    ])
+    expect(() => toStencilSettingsJsonSchema(99)).toThrow('Unsupported schemaVersion 99')
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, symlinkSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { renderStencilPreview } from '../lib/template-preview.js'
+import { previewCommand } from '../commands/preview.js'
+
+const SETTINGS = `id: orders
+name: Orders
+version: 1.0.0
+type: service
+variables:
+  serviceName:
+    type: string
+    required: true
+  region:
+    type: enum
+    values: [eu, us]
+    default: eu
+  owner:
+    type: string
+`
+
+describe('Template preview', () => {
+  let dir: string
+  let stencilDir: string
+
+  const previewOptions = { var: [], file: [], format: 'json' as const }
+  const runPreview = async (options: Partial<Parameters<typeof previewCommand>[1]> = {}) => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const exitCode = await previewCommand(stencilDir, { ...previewOptions, stencilRoot: dir, ...options })
+    return { exitCode, output: JSON.parse(log.mock.calls[0][0]) }
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-preview-'))
+    stencilDir = join(dir, 'orders')
+    mkdirSync(join(stencilDir, 'files/src'), { recursive: true })
+    writeFileSync(join(stencilDir, 'stencil-settings.yml'), SETTINGS)
+    writeFileSync(join(stencilDir, 'files/README.md.hbs'), '# {{serviceName}} ({{region}})\nOwner: {{owner}}\n')
+    writeFileSync(join(stencilDir, 'files/src/{{serviceName}}.ts.hbs'), 'export const region = "{{region}}"\n')
+    writeFileSync(join(stencilDir, 'files/logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should render templates and output paths in memory', () => {
+    const preview = renderStencilPreview(stencilDir, ['files/README.md.hbs', 'files/logo.png', 'files/src/{{serviceName}}.ts.hbs'], {
+      serviceName: 'billing',
+      region: 'us',
+      owner: 'team-a'
+    })
+
+    expect(preview.results).toEqual([])
+    expect(preview.files).toEqual([
+      { source: 'files/README.md.hbs', output: 'README.md', template: true, content: '# billing (us)\nOwner: team-a\n' },
+      { source: 'files/logo.png', output: 'logo.png', template: false, content: null },
+      { source: 'files/src/{{serviceName}}.ts.hbs', output: 'src/billing.ts', template: true, content: 'export const region = "us"\n' }
+    ])
+  })
+
+  it('should report placeholders without a value', () => {
+    const preview = renderStencilPreview(stencilDir, ['files/README.md.hbs', 'files/src/{{serviceName}}.ts.hbs'], { region: 'eu' })
+
+    expect(preview.files.map(file => file.output)).toEqual(['README.md', 'src/{{serviceName}}.ts'])
+    expect(preview.results.map(({ rule, type, message, location }) => ({ rule, type, message, line: location?.start.line }))).toEqual([
+      { rule: 'preview/missing-value', type: 'warning', message: 'No value for template variable: serviceName', line: 1 },
+      { rule: 'preview/missing-value', type: 'warning', message: 'No value for template variable: owner', line: 2 },
+      { rule: 'preview/missing-value', type: 'warning', message: 'No value for template variable: serviceName', line: undefined }
+    ])
+  })
+
+  it('should report rendering errors and stub server helpers', () => {
+    writeFileSync(join(stencilDir, 'files/broken.txt.hbs'), '{{#if serviceName}}unclosed\n')
+    writeFileSync(join(stencilDir, 'files/helpers.txt.hbs'), '{{upper serviceName}} {{#wrap}}body{{/wrap}}\n')
+    writeFileSync(join(stencilDir, 'files/unknown.txt.hbs'), '{{shout serviceName}}\n')
+
+    const preview = renderStencilPreview(
+      stencilDir,
+      ['files/broken.txt.hbs', 'files/helpers.txt.hbs', 'files/unknown.txt.hbs'],
+      { serviceName: 'billing' },
+      ['upper', 'wrap']
+    )
+
+    expect(preview.files.map(file => file.content)).toEqual([null, '[upper] body\n', null])
+    expect(preview.results.map(({ rule, message, details }) => [rule, message, details?.split('\n')[0]])).toEqual([
+      ['preview/render-error', 'Template could not be rendered: files/broken.txt.hbs', expect.stringContaining('Parse error')],
+      ['preview/render-error', 'Template could not be rendered: files/unknown.txt.hbs', 'Missing helper: "shout"']
+    ])
+  })
+
+  it('should render values without HTML escaping', () => {
+    writeFileSync(join(stencilDir, 'files/config.yml.hbs'), 'owner: "{{owner}}"\n')
+
+    const preview = renderStencilPreview(stencilDir, ['files/config.yml.hbs'], { owner: `R&D <rd@example.com> 'core'` })
+
+    expect(preview.files[0].content).toBe(`owner: "R&D <rd@example.com> 'core'"\n`)
+  })
+
+  it('should not read symlinks pointing outside the stencil', () => {
+    writeFileSync(join(dir, 'secret.txt'), 'secret\n')
+    symlinkSync(join(dir, 'secret.txt'), join(stencilDir, 'files/secret.txt'))
+
+    const preview = renderStencilPreview(stencilDir, ['files/secret.txt'], {})
+
+    expect(preview.files).toEqual([{ source: 'files/secret.txt', output: 'secret.txt', template: false, content: null }])
+    expect(preview.results.map(result => result.rule)).toEqual(['files/external-symlink'])
+  })
+
+  it('should apply sample values, --var and defaults like generate', async () => {
+    writeFileSync(join(dir, 'sample.yml'), 'serviceName: billing\nowner: team-a\n')
+
+    const { exitCode, output } = await runPreview({ vars: join(dir, 'sample.yml'), var: ['owner=team-b'] })
+
+    expect(exitCode).toBe(0)
+    expect(output.values).toEqual({ serviceName: 'billing', owner: 'team-b', region: 'eu' })
+    expect(output.files.map((file: { output: string }) => file.output)).toEqual(['README.md', 'logo.png', 'src/billing.ts'])
+    expect(output.warnings).toEqual([])
+  })
+
+  it('should fail on missing required values without writing files', async () => {
+    const { exitCode, output } = await runPreview()
+
+    expect(exitCode).toBe(2)
+    expect(output.errors.map((error: { rule: string }) => error.rule)).toEqual(['values/missing-required'])
+    expect(readdirSync(stencilDir)).toEqual(['files', 'stencil-settings.yml'])
+    expect(readdirSync(dir)).toEqual(['orders'])
+  })
+
+  it('should print the file tree and selected files as text', async () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+
+    expect(await previewCommand(stencilDir, { ...previewOptions, format: 'text', stencilRoot: dir, var: ['serviceName=billing'], file: ['README.md'] })).toBe(0)
+    const output = String(write.mock.calls[0][0])
+    expect(output).toContain('  ├── src/\n  │   └── billing.ts\n  ├── logo.png (binary)\n  └── README.md\n')
+    expect(output).toContain('# billing (eu)\nOwner: \n')
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(await previewCommand(stencilDir, { ...previewOptions, format: 'text', stencilRoot: dir, file: ['missing.txt'] })).toBe(2)
+    expect(error.mock.calls[0][1]).toContain('No output file missing.txt in the preview')
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { collectTemplateVariables } from '../lib/template-variables.js'
+import { VariableDefinitionSchema, checkVariableValue } from '../lib/stencil-settings.js'
+
+const names = (source: string) => collectTemplateVariables(source).usages.map(usage => usage.name)
+
+describe('Template Variables', () => {
+  it('should collect simple and nested placeholders', () => {
+    expect(names('Hello {{serviceName}} {{{rawHtml}}} {{config.port}}')).toEqual([
+      'serviceName',
+      'rawHtml',
+      'config'
+    ])
+  })
+
+  it('should skip helper names but collect their arguments', () => {
+    expect(names('{{uppercase serviceName}} {{#if enabled}}on{{else}}{{fallback}}{{/if}}')).toEqual([
+      'serviceName',
+      'enabled',
+      'fallback'
+    ])
+  })
+
+  it('should not treat item lookups inside each/with blocks as variables', () => {
+    const source = '{{#each endpoints}}{{path}} {{@index}} {{../serviceName}}{{/each}} {{#each items as |item|}}{{item.name}}{{/each}}'
+    expect(names(source)).toEqual(['endpoints', 'serviceName', 'items'])
+  })
+
+  it('should report line and column of each usage', () => {
+    const [usage] = collectTemplateVariables('line one\n  {{serviceName}}').usages
+    expect(usage).toEqual({ name: 'serviceName', line: 2, column: 5 })
+  })
+
+  it('should return a parse error for broken templates', () => {
+    const scan = collectTemplateVariables('{{#if enabled}}unclosed')
+    expect(scan.error).toBeTruthy()
+    expect(scan.usages).toEqual([])
+  })
+
+  it('should locate syntax errors and mismatched blocks', () => {
+    expect(collectTemplateVariables('line one\n  {{serviceName').errorLocation).toEqual({
+      start: { line: 2, column: 5 },
+      end: { line: 2, column: 6 }
+    })
+
+    const mismatch = collectTemplateVariables('line one\n{{#if enabled}}\n{{/each}}')
+    expect(mismatch.error).toBe("if doesn't match each - 2:3")
+    expect(mismatch.errorLocation?.start).toEqual({ line: 2, column: 4 })
+  })
+
+  it('should treat known helpers without arguments as helper calls', () => {
+    const scan = collectTemplateVariables('{{now}} {{#wrap}}{{name}}{{/wrap}} {{#items}}{{title}}{{/items}}', ['now', 'wrap'])
+
+    expect(scan.helpers.map(helper => helper.name)).toEqual(['now', 'wrap'])
+    // wrap keeps the context, the unknown items block iterates
+    expect(scan.usages.map(usage => usage.name)).toEqual(['name', 'items'])
+  })
+
+  it('should locate syntax errors on CRLF and tab-indented lines', () => {
+    expect(collectTemplateVariables('a {{ }} b\r\nsecond\r\n').errorLocation?.start).toEqual({ line: 1, column: 6 })
+    expect(collectTemplateVariables('x\r\ny {{ }}\r\n').errorLocation?.start).toEqual({ line: 2, column: 6 })
+    expect(collectTemplateVariables('ok\n\t\t{{ }}\n').errorLocation?.start).toEqual({ line: 2, column: 6 })
+  })
+
+  it('should mark the whole line when the error excerpt is cut off', () => {
+    const source = 'first line of the template\r\nsome text before the tag {{ }} and after\r\n'
+    expect(collectTemplateVariables(source).errorLocation).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 41 }
+    })
+  })
+
+  it('should collect helper calls but not variable lookups or partials', () => {
+    const scan = collectTemplateVariables('{{upperCase (concat a b)}} {{#if x}}{{plain}}{{/if}} {{#items}}{{/items}} {{> footer title=name}}')
+
+    expect(scan.helpers.map(helper => [helper.name, helper.line, helper.column])).toEqual([
+      ['upperCase', 1, 3],
+      ['concat', 1, 14],
+      ['if', 1, 31]
+    ])
+    expect(scan.usages.map(usage => usage.name)).toEqual(['a', 'b', 'x', 'plain', 'items', 'name'])
+  })
+})
+
+describe('Variable Definitions', () => {
+  it('should accept the documented variable shape', () => {
+    const result = VariableDefinitionSchema.safeParse({
+      type: 'string',
+      description: 'Name of the service',
+      required: true,
+      pattern: '^[a-z-]+$',
+      default: 'my-service'
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should require values for enum variables', () => {
+    expect(VariableDefinitionSchema.safeParse({ type: 'enum' }).success).toBe(false)
+    expect(VariableDefinitionSchema.safeParse({ type: 'enum', values: ['a', 'b'], default: 'a' }).success).toBe(true)
+  })
+
+  it('should reject defaults that do not match the declared type', () => {
+    expect(VariableDefinitionSchema.safeParse({ type: 'number', default: '8080' }).success).toBe(false)
+    expect(VariableDefinitionSchema.safeParse({ type: 'string', pattern: '^a', default: 'b' }).success).toBe(false)
+  })
+
+  it('should check array item types', () => {
+    expect(checkVariableValue({ type: 'array', items: 'string' }, ['a', 'b'])).toBeNull()
+    expect(checkVariableValue({ type: 'array', items: 'string' }, ['a', 1])).toContain('string')
+  })
+})
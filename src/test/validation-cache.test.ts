@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createValidationCache, type CacheKeyInput } from '../lib/validation-cache.js'
+import { listChangedFiles } from '../lib/git-changes.js'
+import { validateStencil, validateWorkspace } from '../lib/validator.js'
+
+const writeStencil = (dir: string, id: string, extra = '') => {
+  mkdirSync(join(dir, 'files'), { recursive: true })
+  writeFileSync(join(dir, 'stencil-settings.yml'), `id: ${id}\nname: ${id}\nversion: 1.0.0\ntype: service\n${extra}`)
+  writeFileSync(join(dir, 'files/README.md.hbs'), '# {{serviceName}}\n')
+}
+
+describe('Validation cache', () => {
+  let dir: string
+  let cacheDir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'promarker-cache-'))
+    cacheDir = join(dir, '.promarker-cache')
+    writeStencil(join(dir, 'stencils/orders'), 'orders', 'variables:\n  serviceName:\n    type: string\n')
+    writeStencil(join(dir, 'stencils/billing'), 'billing', 'extend: orders\n')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('createValidationCache', () => {
+    const input = (overrides: Partial<CacheKeyInput> = {}): CacheKeyInput => ({
+      cliVersion: '1.0.0',
+      options: { strict: false },
+      dirs: [join(dir, 'stencils/orders')],
+      files: [],
+      ...overrides
+    })
+
+    it('should change the key when a file, the version or an option changes', async () => {
+      const cache = createValidationCache(cacheDir)
+      const key = await cache.key(input())
+
+      expect(await cache.key(input())).toBe(key)
+      expect(await cache.key(input({ cliVersion: '1.1.0' }))).not.toBe(key)
+      expect(await cache.key(input({ options: { strict: true } }))).not.toBe(key)
+
+      writeFileSync(join(dir, 'stencils/orders/files/README.md.hbs'), '# {{ serviceName }}\n')
+      expect(await cache.key(input())).not.toBe(key)
+    })
+
+    it('should leave its own entries out of the key', async () => {
+      const stencilDir = join(dir, 'stencils/orders')
+      const cache = createValidationCache(join(stencilDir, '.promarker-cache'))
+      const key = await cache.key(input())
+
+      const summary = await validateStencil(stencilDir)
+      cache.set(stencilDir, key, summary)
+
+      expect(await cache.key(input())).toBe(key)
+      expect(cache.get(stencilDir, key)).toEqual({ ...summary, cached: true })
+      expect(cache.get(stencilDir, 'other-key')).toBeNull()
+    })
+
+    it('should ignore damaged entries', async () => {
+      const stencilDir = join(dir, 'stencils/orders')
+      const cache = createValidationCache(cacheDir)
+      cache.set(stencilDir, 'key', await validateStencil(stencilDir))
+
+      const [entry] = readdirSync(cacheDir).filter(file => file.endsWith('.json'))
+      writeFileSync(join(cacheDir, entry), '{not json')
+
+      expect(cache.get(stencilDir, 'key')).toBeNull()
+    })
+  })
+
+  it('should reuse unchanged results until the stencil or a referenced stencil changes', async () => {
+    const billing = join(dir, 'stencils/billing')
+    const options = { cache: cacheDir, stencilRoot: dir }
+
+    const first = await validateStencil(billing, options)
+    expect(first.cached).toBeUndefined()
+    expect(readFileSync(join(cacheDir, '.gitignore'), 'utf-8')).toBe('*\n')
+
+    const second = await validateStencil(billing, options)
+    expect(second).toEqual({ ...first, cached: true })
+
+    // serviceName is declared by the extended stencil
+    writeFileSync(join(dir, 'stencils/orders/stencil-settings.yml'), 'id: orders\nname: orders\nversion: 1.0.0\ntype: service\n')
+    const third = await validateStencil(billing, options)
+    expect(third.cached).toBeUndefined()
+    expect(third.errors.map(result => result.rule)).toContain('variables/undeclared')
+  })
+
+  it('should not use the cache for fixes or with different options', async () => {
+    const orders = join(dir, 'stencils/orders')
+    await validateStencil(orders, { cache: cacheDir })
+
+    expect((await validateStencil(orders, { cache: cacheDir, fixDryRun: true })).cached).toBeUndefined()
+    expect((await validateStencil(orders, { cache: cacheDir, strict: true })).cached).toBeUndefined()
+    // Each stencil keeps one entry, for the last options it was validated with
+    expect((await validateStencil(orders, { cache: cacheDir, strict: true })).cached).toBe(true)
+  })
+
+  it('should pick up config changes', async () => {
+    const orders = join(dir, 'stencils/orders')
+    writeFileSync(join(dir, 'promarker.config.yml'), 'rules: {}\n')
+    await validateStencil(orders, { cache: cacheDir })
+
+    writeFileSync(join(dir, 'promarker.config.yml'), 'rules:\n  settings/valid: off\n')
+    const summary = await validateStencil(orders, { cache: cacheDir })
+
+    expect(summary.cached).toBeUndefined()
+    expect(summary.info.map(result => result.rule)).not.toContain('settings/valid')
+  })
+
+  it('should pick up plugin changes', async () => {
+    const orders = join(dir, 'stencils/orders')
+    const plugin = (id: string) => `export default { name: 'house', rules: [{ id: '${id}', description: 'Owner', check() {} }] }\n`
+    writeFileSync(join(dir, 'promarker.config.yml'), 'plugins:\n  - ./house-rules.mjs\n')
+    writeFileSync(join(dir, 'house-rules.mjs'), plugin('house/require-owner'))
+    await validateStencil(orders, { cache: cacheDir })
+    expect((await validateStencil(orders, { cache: cacheDir })).cached).toBe(true)
+
+    writeFileSync(join(dir, 'house-rules.mjs'), plugin('house/require-team'))
+    expect((await validateStencil(orders, { cache: cacheDir })).cached).toBeUndefined()
+  })
+
+  describe('changed since a git ref', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' })
+
+    beforeEach(() => {
+      writeStencil(join(dir, 'stencils/shipping'), 'shipping')
+      git('init', '-q')
+      git('add', '-A')
+      git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'stencils')
+    })
+
+    it('should list changed and untracked files', () => {
+      writeFileSync(join(dir, 'stencils/shipping/files/README.md.hbs'), '# Shipping\n')
+      writeFileSync(join(dir, 'notes.txt'), 'untracked\n')
+
+      expect(listChangedFiles('HEAD', dir).sort()).toEqual([
+        join(dir, 'notes.txt'),
+        join(dir, 'stencils/shipping/files/README.md.hbs')
+      ])
+    })
+
+    it('should reject unknown refs', () => {
+      expect(() => listChangedFiles('no-such-ref', dir)).toThrow('git diff failed')
+      expect(() => listChangedFiles('--output=x', dir)).toThrow('Invalid git ref')
+    })
+
+    it('should only validate stencils affected by the changes', async () => {
+      writeFileSync(join(dir, 'stencils/orders/files/README.md.hbs'), '# {{serviceName}} orders\n')
+
+      const workspace = await validateWorkspace(dir, { changedSince: 'HEAD' })
+
+      // billing extends orders
+      expect(workspace.stencils.map(summary => summary.path)).toEqual([
+        join(dir, 'stencils/billing'),
+        join(dir, 'stencils/orders')
+      ])
+      expect(workspace.changedSince).toEqual({ ref: 'HEAD', skipped: 1 })
+      expect(existsSync(cacheDir)).toBe(false)
+    })
+
+    it('should validate every stencil when the config changes', async () => {
+      writeFileSync(join(dir, 'promarker.config.yml'), 'rules: {}\n')
+
+      const workspace = await validateWorkspace(dir, { changedSince: 'HEAD' })
+
+      expect(workspace.totals.stencils).toBe(3)
+      expect(workspace.changedSince).toEqual({ ref: 'HEAD', skipped: 0 })
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { fileURLToPath } from 'url'
+import { dirname, join, relative } from 'path'
+import { validateStencil, validateWorkspace } from '../index.js'
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+const workspaceRoot = join(fixtures, 'workspace')
+
+describe('Validator API', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should return the summary without writing to the console', async () => {
+    const log = vi.spyOn(console, 'log')
+    const error = vi.spyOn(console, 'error')
+
+    const summary = await validateStencil(relative(process.cwd(), join(workspaceRoot, 'mirel/service/191207A')))
+
+    expect(summary).toMatchObject({ success: true, path: join(workspaceRoot, 'mirel/service/191207A'), errors: [] })
+    expect(summary.info.map(result => result.rule)).toContain('settings/valid')
+    expect(log).not.toHaveBeenCalled()
+    expect(error).not.toHaveBeenCalled()
+  })
+
+  it('should report problems as findings instead of rejecting', async () => {
+    const summary = await validateStencil(join(fixtures, 'does-not-exist'))
+
+    expect(summary.success).toBe(false)
+    expect(summary.errors.map(result => result.rule)).toEqual(['stencil/path-not-found'])
+  })
+
+  it('should reject on fatal problems', async () => {
+    const stencilDir = join(workspaceRoot, 'mirel/service/191207A')
+    await expect(validateStencil(stencilDir, { config: join(fixtures, 'missing.config.yml') })).rejects.toThrow('missing.config.yml')
+  })
+
+  it('should validate a workspace and flag duplicate ids', async () => {
+    const workspace = await validateWorkspace(workspaceRoot, { concurrency: 1 })
+
+    expect(workspace.success).toBe(false)
+    expect(workspace.totals).toMatchObject({ stencils: 2, failed: 2 })
+    expect(workspace.duplicateIds).toEqual([{
+      id: 'mirel-service',
+      paths: [join(workspaceRoot, 'mirel/service/191207A'), join(workspaceRoot, 'mirel/service/191208B')]
+    }])
+  })
+
+  it('should report template syntax errors and unknown helpers with positions', async () => {
+    const stencilDir = join(fixtures, 'helpers')
+    const summary = await validateStencil(stencilDir)
+
+    expect(summary.errors).toEqual([expect.objectContaining({
+      path: join(stencilDir, 'files/broken.ts.hbs'),
+      rule: 'templates/parse-error',
+      details: "if doesn't match each - 2:3",
+      location: { start: { line: 2, column: 4 }, end: { line: 2, column: 6 } }
+    })])
+    // upperCase is listed in promarker.config.yml, if is built in
+    expect(summary.warnings).toEqual([expect.objectContaining({
+      path: join(stencilDir, 'files/README.md.hbs'),
+      rule: 'templates/unknown-helper',
+      message: 'Unknown template helper: kebabCase',
+      location: { start: { line: 3, column: 22 }, end: { line: 3, column: 31 } }
+    })])
+  })
+
+  it('should not report configured helpers used without arguments as variables', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'promarker-helpers-'))
+    try {
+      mkdirSync(join(dir, 'files'))
+      writeFileSync(join(dir, 'stencil-settings.yml'), 'id: helpers\nname: Helpers\nversion: 1.0.0\ntype: service\nvariables:\n  name:\n    type: string\n')
+      writeFileSync(join(dir, 'promarker.config.yml'), 'helpers:\n  - now\n  - upper\n  - wrap\n')
+      writeFileSync(join(dir, 'files/README.md.hbs'), '{{now}} {{upper name}}\n{{#wrap}}{{name}}{{/wrap}}\n')
+
+      const summary = await validateStencil(dir)
+
+      expect(summary.errors).toEqual([])
+      expect(summary.warnings).toEqual([])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { createReferenceResolver, resolveReferenceGraph } from '../lib/reference-resolver.js'
+import { collectVariableDefinitions, parseVariableAssignments, resolveVariableValues } from '../lib/variable-values.js'
+import type { VariableDefinition } from '../lib/stencil-settings.js'
+
+const fixturesRoot = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+const settingsFile = '/stencil/stencil-settings.yml'
+
+const definitions: Record<string, VariableDefinition> = {
+  serviceName: { type: 'string', required: true, pattern: '^[a-z-]+$' },
+  port: { type: 'number', default: 8080 },
+  enableAuth: { type: 'boolean', required: true },
+  tags: { type: 'array', items: 'string' },
+  tier: { type: 'enum', values: ['free', 'pro'] }
+}
+
+describe('Variable Values', () => {
+  it('should convert --var values to the declared types', () => {
+    expect(parseVariableAssignments(['port=9090', 'enableAuth=true', 'tags=a,b', 'tier=pro', 'serviceName=123'], definitions)).toEqual({
+      port: 9090,
+      enableAuth: true,
+      tags: ['a', 'b'],
+      tier: 'pro',
+      serviceName: '123'
+    })
+    expect(() => parseVariableAssignments(['port'], definitions)).toThrow('expected key=value')
+  })
+
+  it('should merge sources, apply defaults and report invalid values', () => {
+    const { values, results } = resolveVariableValues(definitions, [
+      { path: '/work/vars.yml', values: { serviceName: 'Bad Name', enableAuth: false, owner: 'me' } },
+      { path: '--var', values: { enableAuth: true } }
+    ], settingsFile)
+
+    expect(values).toMatchObject({ serviceName: 'Bad Name', enableAuth: true, port: 8080 })
+    expect(results.map(r => [r.rule, r.path])).toEqual([
+      ['values/invalid', '/work/vars.yml'],
+      ['values/unknown', '/work/vars.yml']
+    ])
+  })
+
+  it('should report missing required variables', () => {
+    const { results } = resolveVariableValues(definitions, [{ path: '--var', values: { enableAuth: true } }], settingsFile)
+
+    expect(results.map(r => r.message)).toEqual(['Missing value for required variable: serviceName'])
+  })
+
+  it('should include variables inherited through extend', async () => {
+    const stencilRoot = join(fixturesRoot, 'values')
+    const graph = await resolveReferenceGraph(createReferenceResolver(stencilRoot), join(stencilRoot, 'child'))
+    const inherited = collectVariableDefinitions(graph)
+
+    expect(Object.keys(inherited).sort()).toEqual(['owner', 'port', 'serviceName'])
+    expect(inherited.port.default).toBe(8080)
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { affectedChecks, diffResults, mergeSummaries, type WatchScope } from '../lib/watch-session.js'
+import type { ValidationResult, ValidationSummary } from '../lib/types.js'
+
+const scope: WatchScope = {
+  stencilDir: '/stencils/service',
+  settingsFile: '/stencils/service/stencil-settings.yml',
+  referencedSettingsFiles: ['/stencils/base/stencil-settings.yml'],
+  configFile: '/stencils/promarker.config.yml'
+}
+
+const result = (rule: string, message: string, type: ValidationResult['type'] = 'error'): ValidationResult => ({
+  path: scope.settingsFile,
+  rule,
+  type,
+  message
+})
+
+const summary = (results: ValidationResult[]): ValidationSummary => ({
+  success: !results.some(r => r.type === 'error'),
+  path: scope.stencilDir,
+  errors: results.filter(r => r.type === 'error'),
+  warnings: results.filter(r => r.type === 'warning'),
+  info: results.filter(r => r.type === 'info'),
+  validatedAt: new Date().toISOString(),
+  totalFiles: 1
+})
+
+describe('Watch Session', () => {
+  it('should re-run everything when settings, config or ignore files change', () => {
+    expect(affectedChecks([scope.settingsFile], scope)).toBeUndefined()
+    expect(affectedChecks([scope.configFile!], scope)).toBeUndefined()
+    expect(affectedChecks(['/stencils/service/.promarkerignore'], scope)).toBeUndefined()
+    expect(affectedChecks(['/elsewhere/file.hbs'], scope)).toBeUndefined()
+  })
+
+  it('should only re-run affected check groups for template and reference changes', () => {
+    expect(affectedChecks(['/stencils/service/files/app.ts.hbs'], scope)).toEqual(
+      new Set(['settings', 'files', 'templates', 'plugins', 'remote'])
+    )
+    expect(affectedChecks(['/stencils/base/stencil-settings.yml'], scope)).toEqual(
+      new Set(['settings', 'references', 'templates', 'files'])
+    )
+  })
+
+  it('should re-check output paths when inherited variable defaults change', () => {
+    const previous = summary([result('files/output-collision', 'Output path collision: app.ts')])
+    const checks = affectedChecks(['/stencils/base/stencil-settings.yml'], scope)
+
+    expect(mergeSummaries(previous, summary([]), checks).errors).toEqual([])
+  })
+
+  it('should keep results of check groups that were not re-run', () => {
+    const previous = summary([
+      result('references/unresolved', 'Unresolved reference: base'),
+      result('variables/undeclared', 'Undeclared template variable: a')
+    ])
+    const next = summary([result('variables/unused', 'Declared variable is never used: b', 'warning')])
+
+    const merged = mergeSummaries(previous, next, new Set(['settings', 'templates']))
+    expect(merged.errors.map(r => r.rule)).toEqual(['references/unresolved'])
+    expect(merged.warnings.map(r => r.rule)).toEqual(['variables/unused'])
+    expect(merged.success).toBe(false)
+
+    expect(mergeSummaries(previous, next, undefined)).toBe(next)
+  })
+
+  it('should report added and fixed findings between runs', () => {
+    const stale = result('variables/undeclared', 'Undeclared template variable: a')
+    const moved = { ...result('variables/unused', 'Declared variable is never used: b', 'warning'), location: { start: { line: 3, column: 1 }, end: { line: 3, column: 2 } } }
+    const added = result('files/missing-reference', 'Referenced file not found: x')
+
+    const diff = diffResults(summary([stale, moved]), summary([{ ...moved, location: undefined }, added]))
+    expect(diff.added).toEqual([added])
+    expect(diff.fixed).toEqual([stale])
+  })
+})
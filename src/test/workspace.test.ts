@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { fileURLToPath } from 'url'
+import { dirname, join, relative } from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+import { discoverStencils, mapWithConcurrency } from '../lib/workspace.js'
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures')
+
+describe('Workspace', () => {
+  it('should discover every stencil under the root', async () => {
+    const root = join(fixtures, 'workspace')
+    const stencils = await discoverStencils(root)
+
+    expect(stencils.map(dir => relative(root, dir))).toEqual([
+      'mirel/service/191207A',
+      'mirel/service/191208B'
+    ])
+  })
+
+  it('should return an empty list when no stencils exist', async () => {
+    expect(await discoverStencils(join(fixtures, 'workspace/mirel/service/191207A/files'))).toEqual([])
+  })
+
+  it('should keep input order and respect the concurrency limit', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async delay => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await sleep(delay)
+      inFlight--
+      return delay * 2
+    })
+
+    expect(results).toEqual([60, 20, 40, 10, 30])
+    expect(maxInFlight).toBe(2)
+  })
+})